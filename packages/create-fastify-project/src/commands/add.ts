@@ -0,0 +1,85 @@
+import { type Command, Option } from "commander";
+import { logger } from "../helpers/logger";
+import {
+  FEATURES,
+  UNSUPPORTED_FEATURES,
+  changeFeature,
+} from "../workflows/features";
+
+/**
+ * Register `create-fastify-project add <feature>`
+ */
+export function registerAddCommand(program: Command): void {
+  program
+    .command("add")
+    .description("Add a feature to an existing project")
+    .argument(
+      "<feature>",
+      `Feature to add: ${Object.keys(FEATURES).join(", ")}`,
+    )
+    .addOption(
+      new Option("--db <database>", "Database to use with the ORM").choices([
+        "sqlite",
+        "postgres",
+        "mysql",
+      ]),
+    )
+    .addOption(
+      new Option(
+        "--db-workflow <workflow>",
+        "Apply schema changes by pushing the schema or with migrations",
+      ).choices(["push", "migrate"]),
+    )
+    .option(
+      "--template <name>",
+      "Template the project was created from, if not the default",
+    )
+    .addOption(
+      new Option(
+        "--force",
+        "Overwrite files you changed since they were generated",
+      ).conflicts("skipExisting"),
+    )
+    .option(
+      "--skip-existing",
+      "Keep files you changed instead of overwriting them",
+    )
+    .option("--no-install", "Skip dependency installation")
+    .option("-y, --yes", "Never prompt, for CI")
+    .option(
+      "--dry-run",
+      "Print the files and commands the feature would change without writing anything",
+    )
+    .addHelpText(
+      "after",
+      `\nFeatures:\n${Object.entries(FEATURES)
+        .map(([name, feature]) => `  ${name.padEnd(8)} ${feature.description}`)
+        .join("\n")}`,
+    )
+    .addHelpText(
+      "after",
+      `\nOnly features the template generates are available, ${UNSUPPORTED_FEATURES.join(" and ")} aren't yet`,
+    )
+    .action(async (featureName: string, options) => {
+      try {
+        await changeFeature("add", featureName, {
+          db: options.db,
+          dbWorkflow: options.dbWorkflow,
+          template: options.template,
+          install: options.install,
+          onConflict: options.force
+            ? "overwrite"
+            : options.skipExisting
+              ? "skip"
+              : "prompt",
+          dryRun: options.dryRun,
+          yes: options.yes,
+        });
+      } catch (error) {
+        logger.error(
+          error instanceof Error ? error.message : "Unknown error occurred",
+        );
+        process.exit(1);
+      }
+    });
+}
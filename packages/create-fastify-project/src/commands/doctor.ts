@@ -0,0 +1,25 @@
+import type { Command } from "commander";
+import { logger } from "../helpers/logger";
+import { runDoctor } from "../workflows/doctor";
+
+/**
+ * Register `create-fastify-project doctor`
+ */
+export function registerDoctorCommand(program: Command): void {
+  program
+    .command("doctor")
+    .description("Check an existing project for setup problems")
+    .option("--fix", "Fix the problems that can be fixed automatically")
+    .action(async (options) => {
+      try {
+        if (!(await runDoctor(options.fix ?? false))) {
+          process.exit(1);
+        }
+      } catch (error) {
+        logger.error(
+          error instanceof Error ? error.message : "Unknown error occurred",
+        );
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,50 @@
+import type { Command } from "commander";
+import { logger } from "../helpers/logger";
+import { FIELD_TYPES } from "../helpers/resource";
+import { generateResource } from "../workflows/generate";
+
+/**
+ * Register `create-fastify-project generate <generator>`
+ */
+export function registerGenerateCommand(program: Command): void {
+  const generate = program
+    .command("generate")
+    .alias("g")
+    .description("Generate code in an existing project");
+
+  generate
+    .command("resource")
+    .description(
+      "Add a Prisma model with database helpers, API routes and optionally web pages",
+    )
+    .argument("<name>", "Resource name, e.g. BlogPost")
+    .requiredOption(
+      "--fields <fields>",
+      "Comma-separated name:type pairs, append ? for optional fields",
+    )
+    .option("--web", "Also add list and detail pages to the web app")
+    .option("--force", "Replace generated route files that already exist")
+    .option(
+      "--dry-run",
+      "Print the files the generator would change without writing anything",
+    )
+    .addHelpText(
+      "after",
+      `\nResources need a Prisma project, Drizzle projects aren't supported.\n\nField types: ${Object.keys(FIELD_TYPES).join(", ")}\n\nExample:\n  $ create-fastify-project generate resource BlogPost --fields title:string,published:boolean,publishedAt:datetime? --web`,
+    )
+    .action(async (name: string, options) => {
+      try {
+        await generateResource(name, {
+          fields: options.fields,
+          web: options.web,
+          force: options.force,
+          dryRun: options.dryRun,
+        });
+      } catch (error) {
+        logger.error(
+          error instanceof Error ? error.message : "Unknown error occurred",
+        );
+        process.exit(1);
+      }
+    });
+}
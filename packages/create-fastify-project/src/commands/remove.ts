@@ -0,0 +1,68 @@
+import { type Command, Option } from "commander";
+import { logger } from "../helpers/logger";
+import {
+  FEATURES,
+  UNSUPPORTED_FEATURES,
+  changeFeature,
+} from "../workflows/features";
+
+const REMOVABLE_FEATURES = Object.keys(FEATURES).filter(
+  (name) => FEATURES[name].remove,
+);
+
+/**
+ * Register `create-fastify-project remove <feature>`
+ */
+export function registerRemoveCommand(program: Command): void {
+  program
+    .command("remove")
+    .description("Remove a feature from an existing project")
+    .argument(
+      "<feature>",
+      `Feature to remove: ${REMOVABLE_FEATURES.join(", ")}`,
+    )
+    .option(
+      "--template <name>",
+      "Template the project was created from, if not the default",
+    )
+    .addOption(
+      new Option(
+        "--force",
+        "Overwrite or delete files you changed since they were generated",
+      ).conflicts("skipExisting"),
+    )
+    .option(
+      "--skip-existing",
+      "Keep files you changed instead of overwriting them",
+    )
+    .option("--no-install", "Skip dependency installation")
+    .option("-y, --yes", "Never prompt, for CI")
+    .option(
+      "--dry-run",
+      "Print the files, scripts and dependencies the removal would touch without writing anything",
+    )
+    .addHelpText(
+      "after",
+      `\nOnly features the template generates are available, ${UNSUPPORTED_FEATURES.join(" and ")} aren't yet`,
+    )
+    .action(async (featureName: string, options) => {
+      try {
+        await changeFeature("remove", featureName, {
+          template: options.template,
+          install: options.install,
+          onConflict: options.force
+            ? "overwrite"
+            : options.skipExisting
+              ? "skip"
+              : "prompt",
+          dryRun: options.dryRun,
+          yes: options.yes,
+        });
+      } catch (error) {
+        logger.error(
+          error instanceof Error ? error.message : "Unknown error occurred",
+        );
+        process.exit(1);
+      }
+    });
+}
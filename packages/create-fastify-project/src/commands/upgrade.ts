@@ -0,0 +1,35 @@
+import type { Command } from "commander";
+import { logger } from "../helpers/logger";
+import { upgradeProject } from "../workflows/upgrade";
+
+/**
+ * Register `create-fastify-project upgrade`
+ */
+export function registerUpgradeCommand(program: Command): void {
+  program
+    .command("upgrade")
+    .description(
+      "Merge the latest version of the template into an existing project",
+    )
+    .option(
+      "--template <name>",
+      "Template to upgrade to, e.g. a newer git ref, if not the one the project was created from",
+    )
+    .option(
+      "--dry-run",
+      "Print the files the upgrade would change without writing anything",
+    )
+    .action(async (options) => {
+      try {
+        await upgradeProject({
+          template: options.template,
+          dryRun: options.dryRun,
+        });
+      } catch (error) {
+        logger.error(
+          error instanceof Error ? error.message : "Unknown error occurred",
+        );
+        process.exit(1);
+      }
+    });
+}
@@ -1,45 +1,77 @@
-import { existsSync, mkdirSync } from "node:fs";
-import { dirname, resolve } from "node:path";
-import { fileURLToPath } from "node:url";
+import { existsSync } from "node:fs";
+import { relative, resolve } from "node:path";
 import { type ExecaError, execa } from "execa";
 import {
   EnhancedError,
   checkFileSystemHealth,
-  handleFileSystemError,
   handleGitError,
   handlePackageManagerError,
 } from "./helpers/error-handling";
+import {
+  LOCKFILE_NAME,
+  createLockfile,
+  stringifyLockfile,
+} from "./helpers/lockfile";
 import { logger } from "./helpers/logger";
-import { promptForOptions } from "./helpers/prompts";
+import {
+  promptForOptions,
+  promptForTemplateVariables,
+} from "./helpers/prompts";
+import { createTemplateContext } from "./helpers/template-manifest";
 import {
   checkNetworkEnvironment,
   validateProjectOptions,
 } from "./helpers/validation";
-import { setupDatabase, setupExternalDatabase } from "./workflows/database";
-import { initializeGit } from "./workflows/git";
-import { installDependencies } from "./workflows/install";
+import { getTemplate } from "./template-registry";
+import { findConflicts, resolveConflicts } from "./workflows/conflicts";
+import {
+  ORM_NAMES,
+  getDatabaseCommands,
+  getSeedCommands,
+  seedDatabase,
+  setupDatabase,
+  setupExternalDatabase,
+} from "./workflows/database";
+import { displayDryRun } from "./workflows/dry-run";
+import { getGitCommands, initializeGit } from "./workflows/git";
+import { getInstallCommands, installDependencies } from "./workflows/install";
 import {
   copyTemplateFiles,
   customizeTemplate,
+  fetchTemplateFiles,
   updateVersions,
+  writeProjectFiles,
 } from "./workflows/templates";
 import {
+  type UnfinishedStep,
   displayManualSetupInstructions,
   displaySuccessMessage,
+  displayUnfinishedSteps,
+  getUsefulScripts,
   performPreFlightChecks,
   validateProject,
 } from "./workflows/validation";
 
-const __dirname = dirname(fileURLToPath(import.meta.url));
-
-import type { ProjectOptions } from "./types";
+import { FilePlan, formatCommand } from "./helpers/file-plan";
+import { formatRunScript } from "./helpers/package-manager";
+import { report } from "./helpers/report";
+import type { ProjectOptions, RunOptions } from "./types";
 
 export async function createProject(
   projectName: string,
   cliOptions: Partial<ProjectOptions>,
+  runOptions: RunOptions = {},
 ) {
   const startTime = Date.now();
-  const projectPath = resolve(process.cwd(), projectName);
+  const projectPath = resolve(
+    process.cwd(),
+    runOptions.directory ?? projectName,
+  );
+  // Empty when generating into the current directory
+  const projectDir = relative(process.cwd(), projectPath);
+  report.projectName = projectName;
+  report.projectPath = projectPath;
+  report.dryRun = runOptions.dryRun ?? false;
 
   // Show welcome message
   logger.title(`Creating ${projectName}`);
@@ -48,75 +80,243 @@ export async function createProject(
   await performPreFlightChecks(projectPath, cliOptions);
 
   // Prompt for missing options
-  const options = await promptForOptions(cliOptions);
+  const options = await promptForOptions(cliOptions, runOptions.yes);
+
+  // Re-validate now that prompted values are known, before anything is written
+  validateProjectOptions(options);
+  report.options = options;
+  const templateTitle =
+    getTemplate(options.template)?.title ?? options.template;
 
   // Show project configuration
   const config = {
     Project: projectName,
+    Template: templateTitle,
     Database: options.db.toUpperCase(),
-    ORM: options.orm === "prisma" ? "Prisma" : "None",
+    ORM: ORM_NAMES[options.orm],
+    "Schema changes":
+      options.orm === "none"
+        ? "None"
+        : options.dbWorkflow === "migrate"
+          ? "Migrations"
+          : options.orm === "drizzle"
+            ? "drizzle-kit push"
+            : "db push",
+    "Sample data":
+      options.orm !== "none" && options.db === "sqlite" && options.seed
+        ? "Yes"
+        : "No",
     Linter: options.lint === "biome" ? "Biome" : "ESLint",
+    OpenAPI: options.openapi ? "Yes" : "No",
+    "API port": String(options.apiPort),
+    "Web port": String(options.webPort),
     Git: options.git ? "Yes" : "No",
     Install: options.install ? "Yes" : "No",
+    "Package manager": options.pm,
   };
-  logger.summary(projectName, config);
-
-  // Create project directory with enhanced error handling
-  const spinner = logger.spinner("Creating project directory...");
-  try {
-    mkdirSync(projectPath, { recursive: true });
-    spinner.succeed("Created project directory");
-  } catch (error) {
-    spinner.fail("Failed to create project directory");
-    const enhancedError = handleFileSystemError(error as Error, {
-      operation: "Directory creation",
+  const sources = runOptions.sources ?? {};
+  report.sources = sources;
+  logger.summary(projectName, config, {
+    Template: sources.template,
+    Database: sources.db,
+    ORM: sources.orm,
+    "Schema changes": sources.dbWorkflow,
+    "Sample data": sources.seed,
+    Linter: sources.lint,
+    OpenAPI: sources.openapi,
+    "API port": sources.apiPort,
+    "Web port": sources.webPort,
+    Git: sources.git,
+    Install: sources.install,
+    "Package manager": sources.pm,
+  });
+
+  // Fetch the template and ask any questions its manifest declares
+  const spinner = logger.spinner("Loading template...");
+  const template = await report.step("fetchTemplate", () =>
+    fetchTemplateFiles(projectPath, options, spinner),
+  );
+  spinner.stop();
+  const answers = await promptForTemplateVariables(
+    template.manifest.prompts ?? [],
+    !runOptions.yes && process.stdin.isTTY,
+  );
+  const context = createTemplateContext(
+    projectName,
+    options,
+    template.manifest,
+    answers,
+  );
+
+  // Build the project in memory first
+  const plan = new FilePlan();
+  await report.step("copyTemplate", () =>
+    copyTemplateFiles(template, plan, context, spinner),
+  );
+  await report.step("customizeTemplate", () =>
+    customizeTemplate(plan, template.manifest, context, options, spinner),
+  );
+
+  // Update dependencies to latest versions
+  await report.step("updateVersions", () => updateVersions(plan, spinner));
+
+  // Record what the project was generated from for `upgrade`
+  plan.add(
+    LOCKFILE_NAME,
+    stringifyLockfile(
+      createLockfile(
+        plan,
+        projectName,
+        options,
+        { name: template.manifest.name, version: template.version },
+        answers,
+      ),
+    ),
+  );
+
+  // Existing files in the target directory the template would replace
+  const conflicts = findConflicts(plan, projectPath);
+  const conflictPolicy = runOptions.onConflict ?? "prompt";
+  report.conflicts = conflicts;
+
+  if (runOptions.dryRun) {
+    const commands = [
+      ...(options.install ? getInstallCommands(options.pm) : []),
+      ...(options.install ? getDatabaseCommands(options, projectPath) : []),
+      ...(options.install ? getSeedCommands(options) : []),
+      ...(options.git ? getGitCommands() : []),
+    ];
+    recordFiles(plan);
+    report.commands = commands.map(formatCommand);
+    displayDryRun(
+      plan,
+      commands,
       projectPath,
-      details: "Unable to create project directory",
-    });
-    enhancedError.display();
-    process.exit(1);
+      conflicts,
+      conflictPolicy,
+      !runOptions.yes && process.stdin.isTTY,
+    );
+    return;
   }
 
-  // Copy and customize template files
-  const templatePath = resolve(__dirname, "../template");
-  await copyTemplateFiles(templatePath, projectPath, options, spinner);
-  await customizeTemplate(projectPath, projectName, options, spinner);
+  await resolveConflicts(
+    plan,
+    projectPath,
+    conflicts,
+    conflictPolicy,
+    !runOptions.yes && process.stdin.isTTY,
+  );
 
-  // Update dependencies to latest versions
-  await updateVersions(projectPath, spinner);
+  await report.step("writeFiles", () =>
+    writeProjectFiles(plan, projectPath, spinner),
+  );
+  recordFiles(plan);
+
+  // The project is in place from here on, failed steps are reported at the end
+  const unfinished: UnfinishedStep[] = [];
 
   // Install dependencies with enhanced error handling
   let dependenciesInstalled = false;
   if (options.install) {
-    dependenciesInstalled = await installDependencies(projectPath, spinner);
+    dependenciesInstalled = await report.step(
+      "install",
+      () => installDependencies(projectPath, spinner, options.pm),
+      (installed) => installed,
+    );
+    if (!dependenciesInstalled) {
+      unfinished.push({
+        title: "Install dependencies",
+        commands: getInstallCommands(options.pm),
+      });
+    }
+  } else {
+    report.skip("install");
   }
 
   // Initialize database (only for SQLite when dependencies are installed)
-  if (options.orm === "prisma" && dependenciesInstalled) {
-    if (options.db === "sqlite") {
-      await setupDatabase(projectPath, spinner, options);
-    } else {
-      // For PostgreSQL/MySQL, only do basic setup without connecting
-      await setupExternalDatabase(projectPath, spinner, options);
-    }
-  } else if (options.orm === "prisma" && !dependenciesInstalled) {
-    logger.warn(
-      "Skipping database setup because dependencies installation failed",
+  if (options.orm !== "none" && dependenciesInstalled) {
+    const databaseReady = await report.step(
+      "database",
+      () =>
+        options.db === "sqlite"
+          ? setupDatabase(projectPath, spinner, options)
+          : // For PostgreSQL/MySQL, only do basic setup without connecting
+            setupExternalDatabase(projectPath, spinner, options),
+      (ready) => ready,
     );
+    if (!databaseReady) {
+      unfinished.push({
+        title: "Set up the database",
+        commands: [
+          ...getDatabaseCommands(options, projectPath),
+          ...getSeedCommands(options),
+        ],
+      });
+    } else if (getSeedCommands(options).length > 0) {
+      const seeded = await report.step(
+        "seed",
+        () => seedDatabase(projectPath, spinner, options),
+        (succeeded) => succeeded,
+      );
+      if (!seeded) {
+        unfinished.push({
+          title: "Seed the database",
+          commands: getSeedCommands(options),
+        });
+      }
+    }
+  } else if (options.orm !== "none") {
+    report.skip("database");
+    if (options.install) {
+      logger.warn(
+        "Skipping database setup because dependencies installation failed",
+      );
+      unfinished.push({
+        title: "Set up the database",
+        commands: [
+          ...getDatabaseCommands(options, projectPath),
+          ...getSeedCommands(options),
+        ],
+      });
+    }
   }
 
   // Initialize git with enhanced error handling
-  if (options.git) {
-    await initializeGit(projectPath, spinner);
+  if (
+    options.git &&
+    !(await report.step(
+      "git",
+      () => initializeGit(projectPath, spinner),
+      (initialized) => initialized,
+    ))
+  ) {
+    unfinished.push({
+      title: "Initialize git",
+      commands: getGitCommands(),
+    });
+  } else if (!options.git) {
+    report.skip("git");
+  }
+
+  report.unfinished = unfinished.map((step) => ({
+    title: step.title,
+    commands: step.commands.map(formatCommand),
+  }));
+  if (unfinished.length > 0) {
+    displayUnfinishedSteps(projectName, projectDir, unfinished);
   }
 
   // Validate project setup
   const validationSpinner = logger.spinner("Validating project setup...");
-  const hasErrors = await validateProject(projectPath, options);
+  const hasErrors = await report.step(
+    "validate",
+    () => validateProject(projectPath, options),
+    (failed) => !failed,
+  );
 
   if (hasErrors) {
     validationSpinner.fail("Project created with issues");
-    displayManualSetupInstructions(projectName, options);
+    displayManualSetupInstructions(projectDir, options);
   } else {
     validationSpinner.succeed("Project validated successfully");
 
@@ -129,16 +329,20 @@ export async function createProject(
     // Show what was included
     const includedFeatures = [
       "Fastify API server (apps/api)",
-      "React Router 7 web app (apps/web)",
+      `${templateTitle} web app (apps/web)`,
       "Shared TypeScript config & utilities",
     ];
 
-    if (options.orm === "prisma") {
+    if (options.orm !== "none") {
       includedFeatures.push(
-        `Prisma ORM with ${options.db.toUpperCase()} database`,
+        `${ORM_NAMES[options.orm]} ORM with ${options.db.toUpperCase()} database${options.dbWorkflow === "migrate" ? " and migrations" : ""}`,
       );
     }
 
+    if (options.openapi) {
+      includedFeatures.push("OpenAPI spec and Swagger UI at /docs");
+    }
+
     includedFeatures.push(
       `${options.lint === "biome" ? "Biome" : "ESLint"} for code quality`,
     );
@@ -146,28 +350,34 @@ export async function createProject(
     logger.box("What's included", includedFeatures);
 
     // Show next steps
-    const steps = [
-      {
-        title: "Navigate to your project",
-        command: `cd ${projectName}`,
-      },
+    const steps: Array<{
+      title: string;
+      command?: string;
+      description?: string;
+    }> = [
       {
         title: "Start development servers",
-        command: "pnpm dev",
-        description:
-          "This will start both API (port 3001) and web (port 3000) servers",
+        command: formatRunScript(options.pm, "dev"),
+        description: `This will start the API at http://localhost:${options.apiPort} and the web app at http://localhost:${options.webPort}`,
       },
     ];
 
     // Add conditional steps
+    if (projectDir) {
+      steps.unshift({
+        title: "Navigate to your project",
+        command: `cd ${projectDir}`,
+      });
+    }
+
     if (!options.install) {
-      steps.splice(1, 0, {
+      steps.splice(-1, 0, {
         title: "Install dependencies",
-        command: "pnpm install",
+        command: `${options.pm} install`,
       });
     }
 
-    if (options.orm === "prisma" && options.db !== "sqlite") {
+    if (options.orm !== "none" && options.db !== "sqlite") {
       steps.splice(-1, 0, {
         title: "Configure your database",
         command: "# Edit .env file",
@@ -179,17 +389,24 @@ export async function createProject(
 
     // Show useful commands
     logger.section("Useful commands:");
-    logger.command("pnpm dev          # Start both API and web in development");
-    logger.command("pnpm build        # Build for production");
-    logger.command("pnpm lint         # Run linter");
-    logger.command("pnpm format       # Format code");
-
-    if (options.orm === "prisma") {
-      logger.command("pnpm db:studio    # Open Prisma Studio");
+    for (const [script, description] of getUsefulScripts(options)) {
+      logger.command(
+        `${formatRunScript(options.pm, script).padEnd(18)}# ${description}`,
+      );
     }
-
     logger.break();
     logger.dim("💡 Check the README.md for more detailed instructions");
     logger.success("Happy coding! 🚀");
   }
 }
+
+/**
+ * Record the planned files in the run report
+ */
+function recordFiles(plan: FilePlan): void {
+  report.files = plan.paths();
+  report.removed = [...plan.removed].map(([path, reason]) => ({
+    path,
+    reason,
+  }));
+}
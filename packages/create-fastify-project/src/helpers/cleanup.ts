@@ -0,0 +1,54 @@
+import { rmSync } from "node:fs";
+import { constants } from "node:os";
+
+type CleanupTask = () => void;
+
+const tasks = new Set<CleanupTask>();
+let handlersInstalled = false;
+
+function runCleanupTasks(): void {
+  for (const task of tasks) {
+    try {
+      task();
+    } catch {
+      // Keep going, a failed cleanup must not hide the original error
+    }
+  }
+  tasks.clear();
+}
+
+function installHandlers(): void {
+  if (handlersInstalled) {
+    return;
+  }
+  handlersInstalled = true;
+
+  // Every error path ends in process.exit, so cleanup runs synchronously on exit
+  process.on("exit", runCleanupTasks);
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.on(signal, () => {
+      console.log();
+      // Shells report a signal exit as 128 plus the signal number
+      process.exit(128 + constants.signals[signal]);
+    });
+  }
+}
+
+/**
+ * Run a task if the process exits before it is unregistered
+ * Returns a function that unregisters the task
+ */
+export function registerCleanup(task: CleanupTask): () => void {
+  installHandlers();
+  tasks.add(task);
+  return () => {
+    tasks.delete(task);
+  };
+}
+
+/**
+ * Remove a path if the process exits before it is unregistered
+ */
+export function removeOnExit(path: string): () => void {
+  return registerCleanup(() => rmSync(path, { recursive: true, force: true }));
+}
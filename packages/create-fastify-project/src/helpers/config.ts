@@ -0,0 +1,207 @@
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, isAbsolute, join, resolve } from "node:path";
+import { DEFAULT_TEMPLATE } from "../template-registry";
+import type { OptionSource, OptionSources, ProjectOptions } from "../types";
+import { detectPackageManager } from "./package-manager";
+import { parseTemplateSource } from "./template-source";
+import { validateProjectOptions } from "./validation";
+
+export const PROJECT_CONFIG_FILENAME = ".create-fastify-projectrc";
+
+export const DEFAULT_OPTIONS: ProjectOptions = {
+  template: DEFAULT_TEMPLATE,
+  install: true,
+  git: true,
+  orm: "prisma",
+  db: "sqlite",
+  dbWorkflow: "push",
+  seed: true,
+  lint: "biome",
+  openapi: true,
+  apiPort: 3000,
+  webPort: 5173,
+  pm: "pnpm",
+};
+
+const OPTION_KEYS = Object.keys(DEFAULT_OPTIONS) as Array<keyof ProjectOptions>;
+
+/**
+ * Contents of the user config and `.create-fastify-projectrc`
+ */
+export interface CliConfig {
+  defaults?: Partial<ProjectOptions>;
+  presets?: Record<string, Partial<ProjectOptions>>;
+}
+
+export interface ResolvedOptions {
+  options: ProjectOptions;
+  sources: OptionSources;
+}
+
+export function getUserConfigPath(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), ".config");
+  return join(configHome, "create-fastify-project", "config.json");
+}
+
+/**
+ * Find the nearest `.create-fastify-projectrc` in the directory or its parents
+ */
+export function findProjectConfig(startDir: string): string | undefined {
+  let dir = resolve(startDir);
+  while (true) {
+    const configPath = join(dir, PROJECT_CONFIG_FILENAME);
+    if (existsSync(configPath)) {
+      return configPath;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Check a set of options from a config file and resolve template paths
+ * relative to the file they are declared in
+ */
+function parseOptions(
+  value: unknown,
+  configPath: string,
+  label: string,
+): Partial<ProjectOptions> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`${label} in ${configPath} must be an object`);
+  }
+
+  const options: Partial<ProjectOptions> = {};
+  for (const [key, optionValue] of Object.entries(value)) {
+    if (!OPTION_KEYS.includes(key as keyof ProjectOptions)) {
+      throw new Error(
+        `Unknown option "${key}" in ${label} of ${configPath}. Must be one of: ${OPTION_KEYS.join(", ")}`,
+      );
+    }
+    Object.assign(options, { [key]: optionValue });
+  }
+
+  if (options.template) {
+    const source = parseTemplateSource(options.template);
+    if (
+      (source.type === "local" || source.type === "tarball") &&
+      !isAbsolute(options.template) &&
+      !options.template.startsWith("~")
+    ) {
+      options.template = resolve(dirname(configPath), options.template);
+    }
+  }
+
+  try {
+    validateProjectOptions(options);
+  } catch (error) {
+    throw new Error(
+      `Invalid ${label} in ${configPath}:\n${(error as Error).message}`,
+    );
+  }
+
+  return options;
+}
+
+/**
+ * Load a config file, returning an empty config when it doesn't exist
+ */
+export function loadConfigFile(configPath: string): CliConfig {
+  if (!existsSync(configPath)) {
+    return {};
+  }
+
+  let raw: { defaults?: unknown; presets?: unknown };
+  try {
+    raw = JSON.parse(readFileSync(configPath, "utf-8"));
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${configPath}: ${error}`);
+  }
+
+  const config: CliConfig = {};
+  if (raw.defaults !== undefined) {
+    config.defaults = parseOptions(raw.defaults, configPath, "defaults");
+  }
+  if (raw.presets !== undefined) {
+    if (typeof raw.presets !== "object" || raw.presets === null) {
+      throw new Error(`presets in ${configPath} must be an object`);
+    }
+    config.presets = {};
+    for (const [name, preset] of Object.entries(raw.presets)) {
+      config.presets[name] = parseOptions(
+        preset,
+        configPath,
+        `preset "${name}"`,
+      );
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Combine built-in defaults, the user config, the project config, a preset
+ * and command line flags, later ones taking precedence
+ */
+export function resolveOptions(
+  flags: Partial<ProjectOptions>,
+  presetName?: string,
+  cwd = process.cwd(),
+): ResolvedOptions {
+  const userConfig = loadConfigFile(getUserConfigPath());
+  const projectConfigPath = findProjectConfig(cwd);
+  const projectConfig = projectConfigPath
+    ? loadConfigFile(projectConfigPath)
+    : {};
+
+  // Default to the package manager the CLI was started with, e.g. `npm create`
+  const detectedPm = detectPackageManager();
+  const layers: Array<[OptionSource, Partial<ProjectOptions> | undefined]> = [
+    ["default", DEFAULT_OPTIONS],
+    ["detected", detectedPm ? { pm: detectedPm } : undefined],
+    ["user config", userConfig.defaults],
+    ["project config", projectConfig.defaults],
+  ];
+
+  if (presetName) {
+    // Project presets override user presets of the same name
+    const preset =
+      projectConfig.presets?.[presetName] ?? userConfig.presets?.[presetName];
+    if (!preset) {
+      const available = [
+        ...new Set([
+          ...Object.keys(userConfig.presets ?? {}),
+          ...Object.keys(projectConfig.presets ?? {}),
+        ]),
+      ];
+      throw new Error(
+        available.length > 0
+          ? `Unknown preset "${presetName}". Available presets: ${available.join(", ")}`
+          : `Unknown preset "${presetName}". Define presets in ${getUserConfigPath()} or ${PROJECT_CONFIG_FILENAME}`,
+      );
+    }
+    layers.push([`preset ${presetName}`, preset]);
+  }
+
+  layers.push(["flag", flags]);
+
+  const options = { ...DEFAULT_OPTIONS };
+  const sources = Object.fromEntries(
+    OPTION_KEYS.map((key) => [key, "default"]),
+  ) as OptionSources;
+
+  for (const [source, layer] of layers) {
+    for (const key of OPTION_KEYS) {
+      if (layer?.[key] !== undefined) {
+        Object.assign(options, { [key]: layer[key] });
+        sources[key] = source;
+      }
+    }
+  }
+
+  return { options, sources };
+}
@@ -1,7 +1,13 @@
-import { existsSync, mkdirSync, writeFileSync } from "node:fs";
-import { cp, readdir, stat } from "node:fs/promises";
-import { join, resolve } from "node:path";
-import type { ProjectOptions } from "../types";
+import { existsSync } from "node:fs";
+import { readFile, readdir, stat } from "node:fs/promises";
+import { join } from "node:path";
+import type { FilePlan } from "./file-plan";
+import {
+  type TemplateCondition,
+  type TemplateContext,
+  type TemplateManifest,
+  matchesCondition,
+} from "./template-manifest";
 
 const EXCLUDE_PATTERNS = [
   "node_modules",
@@ -53,45 +59,78 @@ function shouldExclude(filename: string, fullPath?: string): boolean {
   });
 }
 
-async function copyRecursive(
+async function readRecursive(
   src: string,
-  dest: string,
+  plan: FilePlan,
+  excludedPaths: Set<string>,
   basePath?: string,
+  destBasePath = basePath,
 ): Promise<void> {
   const entries = await readdir(src);
 
   for (const entry of entries) {
     const relativePath = basePath ? `${basePath}/${entry}` : entry;
+    const destPath = destBasePath ? `${destBasePath}/${entry}` : entry;
 
-    if (shouldExclude(entry, relativePath)) {
+    if (excludedPaths.has(relativePath) || shouldExclude(entry, relativePath)) {
       continue;
     }
 
     const srcPath = join(src, entry);
-    const destPath = join(dest, entry);
     const stats = await stat(srcPath);
 
     if (stats.isDirectory()) {
-      if (!existsSync(destPath)) {
-        mkdirSync(destPath, { recursive: true });
-      }
-      await copyRecursive(srcPath, destPath, relativePath);
+      await readRecursive(srcPath, plan, excludedPaths, relativePath, destPath);
     } else {
-      await cp(srcPath, destPath);
+      plan.add(destPath, await readFile(srcPath));
     }
   }
 }
 
+function formatCondition(condition: TemplateCondition): string {
+  return Object.entries(condition)
+    .map(
+      ([key, value]) =>
+        `${key}=${Array.isArray(value) ? value.join("|") : value}`,
+    )
+    .join(", ");
+}
+
+/**
+ * Template paths whose conditions don't match the chosen options
+ */
+function getConditionalExclusions(
+  manifest: TemplateManifest,
+  context: TemplateContext,
+): Map<string, string> {
+  const excluded = new Map<string, string>();
+
+  for (const rule of manifest.files ?? []) {
+    // Variant files replace the base file, which is still copied by default
+    if (!rule.from && !matchesCondition(rule.when, context)) {
+      excluded.set(rule.path, `only used with ${formatCondition(rule.when)}`);
+    }
+  }
+
+  return excluded;
+}
+
+/**
+ * Load the template's files into the plan, applying the manifest's file rules
+ */
 export async function copyTemplate(
   templatePath: string,
-  targetPath: string,
-  options: ProjectOptions,
+  plan: FilePlan,
+  manifest: TemplateManifest,
+  context: TemplateContext,
 ): Promise<void> {
   // The templatePath should point to the bundled template directory
   // Verify it contains the expected structure
   const expectedFiles = ["package.json", "apps", "packages"];
-  const hasExpectedStructure = expectedFiles.every((file) =>
-    existsSync(join(templatePath, file)),
+  const hasExpectedStructure = expectedFiles.every(
+    (file) =>
+      existsSync(join(templatePath, file)) ||
+      existsSync(join(templatePath, `${file}.ejs`)),
   );
 
   if (!hasExpectedStructure) {
@@ -100,19 +139,34 @@ export async function copyTemplate(
     );
   }
 
-  // Copy the contents of the template directory directly to target
-  await copyRecursive(templatePath, targetPath);
+  const conditionalExclusions = getConditionalExclusions(manifest, context);
+  for (const [path, reason] of conditionalExclusions) {
+    if (existsSync(join(templatePath, path))) {
+      plan.removed.set(path.replace(/\.ejs$/, ""), reason);
+    }
+  }
 
-  // Ensure data directory exists with .gitkeep for SQLite database
-  const dataDir = join(targetPath, "data");
-  if (!existsSync(dataDir)) {
-    mkdirSync(dataDir, { recursive: true });
+  // Read the contents of the template directory into the plan
+  await readRecursive(
+    templatePath,
+    plan,
+    new Set([...(manifest.ignore ?? []), ...conditionalExclusions.keys()]),
+  );
+
+  // Apply variant files for the chosen options
+  for (const rule of manifest.files ?? []) {
+    if (rule.from && matchesCondition(rule.when, context)) {
+      const srcPath = join(templatePath, rule.from);
+      if ((await stat(srcPath)).isDirectory()) {
+        await readRecursive(srcPath, plan, new Set(), rule.from, rule.path);
+      } else {
+        plan.add(rule.path, await readFile(srcPath));
+      }
+    }
   }
-  const gitkeepPath = join(dataDir, ".gitkeep");
-  if (!existsSync(gitkeepPath)) {
-    await cp(join(templatePath, "data", ".gitkeep"), gitkeepPath).catch(() => {
-      // If .gitkeep doesn't exist in template, create an empty one
-      writeFileSync(gitkeepPath, "");
-    });
+
+  // Ensure data directory exists with .gitkeep for SQLite database
+  if (!plan.has("data/.gitkeep")) {
+    plan.add("data/.gitkeep", "");
   }
 }
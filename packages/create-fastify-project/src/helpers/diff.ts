@@ -0,0 +1,95 @@
+import chalk from "chalk";
+
+export interface DiffLine {
+  type: "same" | "added" | "removed";
+  line: string;
+}
+
+/** Above this many line pairs the diff falls back to replacing everything */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Line-based diff using the longest common subsequence
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map((line) => ({ type: "removed" as const, line })),
+      ...b.map((line) => ({ type: "added" as const, line })),
+    ];
+  }
+
+  // lengths[i][j] is the LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "same", line: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: "removed", line: a[i++] });
+    } else {
+      lines.push({ type: "added", line: b[j++] });
+    }
+  }
+  while (i < a.length) {
+    lines.push({ type: "removed", line: a[i++] });
+  }
+  while (j < b.length) {
+    lines.push({ type: "added", line: b[j++] });
+  }
+
+  return lines;
+}
+
+/**
+ * Format a colored diff, keeping a few unchanged lines around each change
+ */
+export function formatDiff(before: string, after: string, context = 3): string {
+  const lines = diffLines(before, after);
+  const changed = lines.map((line) => line.type !== "same");
+  const output: string[] = [];
+  let skipped = false;
+
+  for (const [index, { type, line }] of lines.entries()) {
+    const nearChange = changed
+      .slice(Math.max(0, index - context), index + context + 1)
+      .some(Boolean);
+
+    if (!nearChange) {
+      if (!skipped) {
+        output.push(chalk.dim("  ..."));
+        skipped = true;
+      }
+      continue;
+    }
+    skipped = false;
+
+    if (type === "added") {
+      output.push(chalk.green(`+ ${line}`));
+    } else if (type === "removed") {
+      output.push(chalk.red(`- ${line}`));
+    } else {
+      output.push(chalk.dim(`  ${line}`));
+    }
+  }
+
+  return output.join("\n");
+}
@@ -1,7 +1,10 @@
+import { existsSync } from "node:fs";
 import { constants, access } from "node:fs/promises";
 import { resolve } from "node:path";
 import chalk from "chalk";
 import type { ExecaError } from "execa";
+import { type PackageManager, getPackageManager } from "./package-manager";
+import { report } from "./report";
 
 export interface ErrorContext {
   operation: string;
@@ -38,6 +41,12 @@ export class EnhancedError extends Error {
   }
 
   public display(): void {
+    report.addError(
+      this.context.details
+        ? `${this.context.operation} failed: ${this.message} (${this.context.details})`
+        : `${this.context.operation} failed: ${this.message}`,
+    );
+
     console.error(chalk.red.bold(`❌ ${this.context.operation} failed:`));
     console.error(chalk.red(`   ${this.message}`));
 
@@ -67,12 +76,18 @@ export async function checkFileSystemHealth(targetPath: string): Promise<{
   let canWrite = true;
 
   try {
-    // Check if parent directory exists and is writable
-    const parentDir = resolve(targetPath, "..");
-    await access(parentDir, constants.F_OK | constants.W_OK);
+    // Check if the target, or its parent when it doesn't exist yet, is writable
+    const writableDir = existsSync(targetPath)
+      ? targetPath
+      : resolve(targetPath, "..");
+    await access(writableDir, constants.F_OK | constants.W_OK);
   } catch {
     canWrite = false;
-    issues.push("Parent directory is not writable");
+    issues.push(
+      existsSync(targetPath)
+        ? "Target directory is not writable"
+        : "Parent directory is not writable",
+    );
   }
 
   // Basic disk space check (heuristic)
@@ -182,7 +197,7 @@ export function handleNetworkError(
         "Check your internet connection",
         "Try again in a few moments",
         "If problem persists, create project with --no-install",
-        "Then run 'pnpm install' manually once network is stable",
+        "Then install dependencies manually once network is stable",
       ],
     },
     error,
@@ -355,33 +370,36 @@ export function handleGitError(
 }
 
 /**
- * Handle PNPM/npm specific errors
+ * Handle errors from the chosen package manager
  */
 export function handlePackageManagerError(
   error: ExecaError,
   context: ErrorContext,
+  pm: PackageManager = "pnpm",
 ): EnhancedError {
   const errorMessage = error.message.toLowerCase();
+  const info = getPackageManager(pm);
 
   if (
-    errorMessage.includes("pnpm: command not found") ||
-    errorMessage.includes("'pnpm' is not recognized")
+    errorMessage.includes(`${pm}: command not found`) ||
+    errorMessage.includes(`'${pm}' is not recognized`) ||
+    errorMessage.includes(`spawn ${pm} enoent`)
   ) {
     return new EnhancedError(
-      "PNPM not installed",
+      `${pm} not installed`,
       {
         ...context,
-        details: "PNPM package manager is required but not found",
+        details: `${pm} package manager is required but not found`,
       },
       {
-        message: "PNPM installation required",
+        message: `${pm} installation required`,
         steps: [
-          "Install PNPM with: npm install -g pnpm",
-          "Or using Corepack: corepack enable",
-          "Verify installation with: pnpm --version",
+          ...info.installSteps,
+          `Verify installation with: ${pm} --version`,
           "Restart your terminal and try again",
+          "Or pick another package manager with --pm",
         ],
-        helpUrl: "https://pnpm.io/installation",
+        helpUrl: info.helpUrl,
       },
       error,
     );
@@ -401,8 +419,8 @@ export function handlePackageManagerError(
         message: "Dependency resolution issues",
         steps: [
           "This usually resolves automatically - the project should still work",
-          "If issues persist, try: pnpm install --force",
-          "Or clear cache and retry: pnpm store prune && pnpm install",
+          `If issues persist, try: ${pm} install --force`,
+          `Or clear cache and retry: ${info.cacheClean} && ${pm} install`,
           "Check for version conflicts in package.json files",
         ],
       },
@@ -425,8 +443,8 @@ export function handlePackageManagerError(
     {
       message: "Package manager error occurred",
       steps: [
-        "Try clearing package manager cache: pnpm store prune",
-        "Delete node_modules and try again: rm -rf node_modules && pnpm install",
+        `Try clearing package manager cache: ${info.cacheClean}`,
+        `Delete node_modules and try again: rm -rf node_modules && ${pm} install`,
         "Check if you have sufficient disk space",
         "Try with --no-install flag and install dependencies manually",
       ],
@@ -434,3 +452,78 @@ export function handlePackageManagerError(
     error,
   );
 }
+
+/**
+ * Handle errors while fetching a remote or local template source
+ */
+export function handleTemplateSourceError(
+  error: Error,
+  context: ErrorContext,
+): EnhancedError {
+  const errorMessage = error.message.toLowerCase();
+
+  if (
+    errorMessage.includes("repository not found") ||
+    errorMessage.includes("could not read from remote") ||
+    errorMessage.includes("remote branch") ||
+    errorMessage.includes("did not match any")
+  ) {
+    return new EnhancedError(
+      "Template repository could not be cloned",
+      {
+        ...context,
+        details: error.message,
+      },
+      {
+        message: "Git template source issue",
+        steps: [
+          "Check that the repository URL is spelled correctly",
+          "Verify the ref after '#' exists (branch, tag or commit)",
+          "For private repositories, make sure your git credentials are configured",
+          "Try cloning manually and pass the local directory to --template",
+        ],
+      },
+      error,
+    );
+  }
+
+  if (errorMessage.includes("not found")) {
+    return new EnhancedError(
+      "Template source not found",
+      {
+        ...context,
+        details: error.message,
+      },
+      {
+        message: "The template location does not exist",
+        steps: [
+          "Check the path passed to --template",
+          "Relative paths are resolved from the current directory",
+          "For git sources, use the form github:org/repo#ref/subdir",
+        ],
+      },
+      error,
+    );
+  }
+
+  if (errorMessage.includes("tar")) {
+    return new EnhancedError(
+      "Template tarball could not be extracted",
+      {
+        ...context,
+        details: error.message,
+      },
+      {
+        message: "Tarball extraction failed",
+        steps: [
+          "Make sure the file is a gzipped tarball (.tgz or .tar.gz)",
+          "Recreate it with: npm pack or tar -czf template.tgz <dir>",
+          "Or extract it manually and pass the directory to --template",
+        ],
+      },
+      error,
+    );
+  }
+
+  return handleFileSystemError(error, context);
+}
@@ -0,0 +1,114 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import { execa } from "execa";
+
+export interface PlannedFile {
+  /** Content as it will be written */
+  content: Buffer;
+  /** Content when the file entered the plan, used for diffs */
+  original: Buffer;
+}
+
+export interface PlannedCommand {
+  command: string;
+  args: string[];
+  /** Working directory, relative to the project root */
+  cwd?: string;
+}
+
+/**
+ * In-memory set of files a project will be generated from
+ * Workflows build and transform the plan, and nothing touches the
+ * project directory until it is written out
+ */
+export class FilePlan {
+  private readonly files = new Map<string, PlannedFile>();
+
+  /** Template paths left out of the project, with the reason why */
+  readonly removed = new Map<string, string>();
+
+  add(path: string, content: Buffer | string): void {
+    const buffer = Buffer.from(content);
+    this.files.set(path, { content: buffer, original: buffer });
+  }
+
+  has(path: string): boolean {
+    return this.files.has(path);
+  }
+
+  get(path: string): PlannedFile | undefined {
+    return this.files.get(path);
+  }
+
+  read(path: string): string {
+    const file = this.files.get(path);
+    if (!file) {
+      throw new Error(`File is not part of the plan: ${path}`);
+    }
+    return file.content.toString("utf-8");
+  }
+
+  write(path: string, content: Buffer | string): void {
+    const file = this.files.get(path);
+    if (!file) {
+      this.add(path, content);
+      return;
+    }
+    file.content = Buffer.from(content);
+  }
+
+  delete(path: string, reason?: string): void {
+    this.files.delete(path);
+    if (reason) {
+      this.removed.set(path, reason);
+    }
+  }
+
+  /** All planned paths, sorted */
+  paths(): string[] {
+    return [...this.files.keys()].sort();
+  }
+
+  /** Planned files whose content changed since they entered the plan */
+  changedPaths(): string[] {
+    return this.paths().filter((path) => {
+      const file = this.files.get(path);
+      return file ? !file.content.equals(file.original) : false;
+    });
+  }
+
+  /**
+   * Write every planned file below the target directory
+   */
+  async writeTo(targetPath: string): Promise<number> {
+    for (const [path, file] of this.files) {
+      const filePath = join(targetPath, path);
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(filePath, file.content);
+    }
+    return this.files.size;
+  }
+}
+
+/**
+ * Format a planned command for display
+ */
+export function formatCommand(command: PlannedCommand): string {
+  const args = command.args.map((arg) =>
+    arg.includes(" ") ? `"${arg}"` : arg,
+  );
+  const line = [command.command, ...args].join(" ");
+  return command.cwd ? `(cd ${command.cwd} && ${line})` : line;
+}
+
+/**
+ * Run a planned command inside the project directory
+ */
+export async function runCommand(
+  command: PlannedCommand,
+  projectPath: string,
+): Promise<void> {
+  await execa(command.command, command.args, {
+    cwd: resolve(projectPath, command.cwd ?? "."),
+  });
+}
@@ -0,0 +1,110 @@
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import { writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { getCliVersion } from "../template-registry";
+import type { ProjectOptions } from "../types";
+import { DEFAULT_OPTIONS } from "./config";
+import type { FilePlan } from "./file-plan";
+
+export const LOCKFILE_NAME = ".fastify-project.json";
+
+/**
+ * What a project was generated from, so it can be regenerated later
+ */
+export interface ProjectLockfile {
+  cliVersion: string;
+  template: {
+    name: string;
+    version?: string;
+  };
+  projectName: string;
+  options: ProjectOptions;
+  /** Answers to the template's own prompts */
+  answers: Record<string, string | boolean>;
+  /** SHA-256 of each generated file, to tell which ones were changed since */
+  files: Record<string, string>;
+}
+
+export function hashContent(content: Buffer | string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Hash every planned file
+ */
+export function hashFiles(plan: FilePlan): Record<string, string> {
+  return Object.fromEntries(
+    plan
+      .paths()
+      .filter((path) => path !== LOCKFILE_NAME)
+      .map((path) => [path, hashContent(plan.get(path)?.content ?? "")]),
+  );
+}
+
+export function createLockfile(
+  plan: FilePlan,
+  projectName: string,
+  options: ProjectOptions,
+  template: { name: string; version?: string },
+  answers: Record<string, string | boolean>,
+): ProjectLockfile {
+  return {
+    cliVersion: getCliVersion(),
+    template,
+    projectName,
+    options,
+    answers,
+    files: hashFiles(plan),
+  };
+}
+
+export function stringifyLockfile(lockfile: ProjectLockfile): string {
+  return `${JSON.stringify(lockfile, null, 2)}\n`;
+}
+
+/**
+ * Read a project's lockfile, if it was generated with one
+ */
+export function readLockfile(projectPath: string): ProjectLockfile | undefined {
+  const lockfilePath = join(projectPath, LOCKFILE_NAME);
+  if (!existsSync(lockfilePath)) {
+    return undefined;
+  }
+
+  let lockfile: ProjectLockfile;
+  try {
+    lockfile = JSON.parse(readFileSync(lockfilePath, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Invalid JSON in ${lockfilePath}: ${(error as Error).message}`,
+    );
+  }
+  if (!lockfile.options || !lockfile.template || !lockfile.files) {
+    throw new Error(
+      `${lockfilePath} is incomplete, it needs template, options and files`,
+    );
+  }
+  // Options added since keep what older projects were generated with
+  const {
+    dbWorkflow = "push",
+    seed = false,
+    apiPort = DEFAULT_OPTIONS.apiPort,
+    webPort = DEFAULT_OPTIONS.webPort,
+  } = lockfile.options;
+  return {
+    ...lockfile,
+    options: { ...lockfile.options, dbWorkflow, seed, apiPort, webPort },
+    answers: lockfile.answers ?? {},
+  };
+}
+
+export async function writeLockfile(
+  projectPath: string,
+  lockfile: ProjectLockfile,
+): Promise<void> {
+  await writeFile(
+    join(projectPath, LOCKFILE_NAME),
+    stringifyLockfile(lockfile),
+  );
+}
@@ -7,13 +7,27 @@ import ora, { type Ora } from "ora";
  */
 export class Logger {
   private activeSpinner: Ora | null = null;
+  private silent = false;
+
+  /**
+   * Suppress all output, e.g. when a JSON report is printed instead
+   */
+  setSilent(silent: boolean): void {
+    this.silent = silent;
+  }
+
+  private write(text = ""): void {
+    if (!this.silent) {
+      console.log(text);
+    }
+  }
 
   /**
    * Log a success message with green checkmark
    */
   success(message: string): void {
     this.stopSpinner();
-    console.log(chalk.green(`✓ ${message}`));
+    this.write(chalk.green(`✓ ${message}`));
   }
 
   /**
@@ -21,7 +35,7 @@ export class Logger {
    */
   error(message: string): void {
     this.stopSpinner();
-    console.log(chalk.red(`✗ ${message}`));
+    this.write(chalk.red(`✗ ${message}`));
   }
 
   /**
@@ -29,7 +43,7 @@ export class Logger {
    */
   warn(message: string): void {
     this.stopSpinner();
-    console.log(chalk.yellow(`⚠ ${message}`));
+    this.write(chalk.yellow(`⚠ ${message}`));
   }
 
   /**
@@ -37,21 +51,21 @@ export class Logger {
    */
   info(message: string): void {
     this.stopSpinner();
-    console.log(chalk.blue(`ℹ ${message}`));
+    this.write(chalk.blue(`ℹ ${message}`));
   }
 
   /**
    * Log a step in a process with cyan arrow
    */
   step(command: string): void {
-    console.log(chalk.cyan(`  ${command}`));
+    this.write(chalk.cyan(`  ${command}`));
   }
 
   /**
    * Log a command to run with subtle styling
    */
   command(command: string): void {
-    console.log(chalk.dim(`  $ ${command}`));
+    this.write(chalk.dim(`  $ ${command}`));
   }
 
   /**
@@ -59,37 +73,38 @@ export class Logger {
    */
   title(text: string): void {
     this.stopSpinner();
-    console.log();
-    console.log(chalk.bold.magenta(`🚀 ${text}`));
-    console.log();
+    this.write();
+    this.write(chalk.bold.magenta(`🚀 ${text}`));
+    this.write();
   }
 
   /**
    * Create a section header
    */
   section(text: string): void {
-    console.log();
-    console.log(chalk.bold.cyan(text));
+    this.write();
+    this.write(chalk.bold.cyan(text));
   }
 
   /**
    * Log a subtle/dimmed message
    */
   dim(message: string): void {
-    console.log(chalk.dim(message));
+    this.write(chalk.dim(message));
   }
 
   /**
-   * Create a spinner with message
+   * Create a spinner, started right away when given a message
    */
-  spinner(message: string): Ora {
+  spinner(message?: string): Ora {
     this.stopSpinner();
     this.activeSpinner = ora({
       text: message,
       color: "cyan",
       spinner: "dots",
-    }).start();
-    return this.activeSpinner;
+      isSilent: this.silent,
+    });
+    return message ? this.activeSpinner.start() : this.activeSpinner;
   }
 
   /**
@@ -106,22 +121,22 @@ export class Logger {
    * Add a line break
    */
   break(): void {
-    console.log();
+    this.write();
   }
 
   /**
    * Log a list item with bullet point
    */
   listItem(text: string): void {
-    console.log(chalk.dim(`  • ${text}`));
+    this.write(chalk.dim(`  • ${text}`));
   }
 
   /**
    * Create a box around text for emphasis
    */
   box(title: string, items: string[]): void {
-    console.log();
-    console.log(chalk.bold.cyan(`📦 ${title}`));
+    this.write();
+    this.write(chalk.bold.cyan(`📦 ${title}`));
     for (const item of items) {
       this.listItem(item);
     }
@@ -132,10 +147,10 @@ export class Logger {
    */
   completion(projectName: string, timeMs: number): void {
     this.break();
-    console.log(
+    this.write(
       chalk.green.bold(`🎉 Successfully created ${chalk.cyan(projectName)}`),
     );
-    console.log(chalk.dim(`   Completed in ${timeMs}ms`));
+    this.write(chalk.dim(`   Completed in ${timeMs}ms`));
     this.break();
   }
 
@@ -149,15 +164,15 @@ export class Logger {
     this.section("Next steps:");
 
     for (const [index, step] of steps.entries()) {
-      console.log(chalk.cyan(`${index + 1}. ${step.title}`));
+      this.write(chalk.cyan(`${index + 1}. ${step.title}`));
       if (step.command) {
         this.command(step.command);
       }
       if (step.description) {
-        console.log(chalk.dim(`   ${step.description}`));
+        this.write(chalk.dim(`   ${step.description}`));
       }
       if (index < steps.length - 1) {
-        console.log();
+        this.write();
       }
     }
 
@@ -165,13 +180,22 @@ export class Logger {
   }
 
   /**
-   * Display project summary
+   * Display project summary, with where each value came from when known
    */
-  summary(projectName: string, config: Record<string, string>): void {
+  summary(
+    projectName: string,
+    config: Record<string, string>,
+    sources: Record<string, string | undefined> = {},
+  ): void {
     this.section("Project Configuration:");
 
     for (const [key, value] of Object.entries(config)) {
-      console.log(chalk.dim(`  ${key}: `) + chalk.cyan(value));
+      const source = sources[key];
+      this.write(
+        chalk.dim(`  ${key}: `) +
+          chalk.cyan(value) +
+          (source ? chalk.dim(` (${source})`) : ""),
+      );
     }
 
     this.break();
@@ -0,0 +1,123 @@
+import { diffLines } from "./diff";
+
+export interface MergeLabels {
+  ours: string;
+  theirs: string;
+}
+
+export interface MergeResult {
+  content: string;
+  /** Number of conflicting hunks written with conflict markers */
+  conflicts: number;
+}
+
+/**
+ * For each base line, the index of the same line in the other version
+ */
+function matchLines(base: string, other: string): Array<number | undefined> {
+  const matches: Array<number | undefined> = [];
+  let baseIndex = 0;
+  let otherIndex = 0;
+  for (const { type } of diffLines(base, other)) {
+    if (type === "same") {
+      matches[baseIndex++] = otherIndex++;
+    } else if (type === "removed") {
+      baseIndex++;
+    } else {
+      otherIndex++;
+    }
+  }
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Line-based three-way merge in the style of diff3
+ * Hunks changed on one side only are taken from that side, hunks changed
+ * differently on both sides are written between conflict markers
+ */
+export function mergeThreeWay(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: MergeLabels,
+): MergeResult {
+  const baseLines = base.split("\n");
+  const ourLines = ours.split("\n");
+  const theirLines = theirs.split("\n");
+  const ourMatches = matchLines(base, ours);
+  const theirMatches = matchLines(base, theirs);
+
+  const output: string[] = [];
+  let conflicts = 0;
+
+  const addHunk = (
+    baseHunk: string[],
+    ourHunk: string[],
+    theirHunk: string[],
+  ) => {
+    if (sameLines(ourHunk, baseHunk) || sameLines(ourHunk, theirHunk)) {
+      output.push(...theirHunk);
+    } else if (sameLines(theirHunk, baseHunk)) {
+      output.push(...ourHunk);
+    } else {
+      conflicts++;
+      output.push(
+        `<<<<<<< ${labels.ours}`,
+        ...ourHunk,
+        "=======",
+        ...theirHunk,
+        `>>>>>>> ${labels.theirs}`,
+      );
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  let k = 0;
+  while (i < baseLines.length) {
+    // Lines unchanged on both sides
+    let stable = 0;
+    while (
+      i + stable < baseLines.length &&
+      ourMatches[i + stable] === j + stable &&
+      theirMatches[i + stable] === k + stable
+    ) {
+      stable++;
+    }
+    if (stable > 0) {
+      output.push(...baseLines.slice(i, i + stable));
+      i += stable;
+      j += stable;
+      k += stable;
+      continue;
+    }
+
+    // The next base line both sides kept ends the changed hunk
+    let next = i;
+    while (
+      next < baseLines.length &&
+      (ourMatches[next] === undefined || theirMatches[next] === undefined)
+    ) {
+      next++;
+    }
+    const ourEnd = ourMatches[next] ?? ourLines.length;
+    const theirEnd = theirMatches[next] ?? theirLines.length;
+    addHunk(
+      baseLines.slice(i, next),
+      ourLines.slice(j, ourEnd),
+      theirLines.slice(k, theirEnd),
+    );
+    i = next;
+    j = ourEnd;
+    k = theirEnd;
+  }
+  if (j < ourLines.length || k < theirLines.length) {
+    addHunk([], ourLines.slice(j), theirLines.slice(k));
+  }
+
+  return { content: output.join("\n"), conflicts };
+}
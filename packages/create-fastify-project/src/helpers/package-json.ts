@@ -0,0 +1,115 @@
+import type { FilePlan } from "./file-plan";
+
+export type PackageJson = Record<string, unknown>;
+
+/** Fields merged key by key when a feature changes a package.json */
+const MERGED_FIELDS = ["scripts", "dependencies", "devDependencies"] as const;
+
+export function parsePackageJson(content: string, path: string): PackageJson {
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${path}: ${error}`);
+  }
+}
+
+/**
+ * Drop dependency versions, e.g. to compare package.json files whose
+ * dependencies were updated to their latest versions
+ */
+export function withoutVersions(packageJson: PackageJson): PackageJson {
+  const stripped = { ...packageJson };
+  for (const field of ["dependencies", "devDependencies"] as const) {
+    if (stripped[field]) {
+      stripped[field] = Object.keys(stripped[field] as object);
+    }
+  }
+  return stripped;
+}
+
+/**
+ * Serialize a package.json with the indentation of its previous content
+ */
+export function stringifyPackageJson(
+  packageJson: PackageJson,
+  previous: string,
+): string {
+  const indent = previous.match(/^[ \t]+(?=")/m)?.[0] ?? "\t";
+  const trailingNewline = previous.endsWith("\n") ? "\n" : "";
+  return JSON.stringify(packageJson, null, indent) + trailingNewline;
+}
+
+/**
+ * Rewrite a package.json in the plan, keeping its indentation
+ */
+export function updatePackageJson(
+  plan: FilePlan,
+  path: string,
+  update: (packageJson: PackageJson) => PackageJson,
+): void {
+  const content = plan.read(path);
+  const packageJson = parsePackageJson(content, path);
+  const updated = update(packageJson);
+  if (JSON.stringify(updated) !== JSON.stringify(packageJson)) {
+    plan.write(path, stringifyPackageJson(updated, content));
+  }
+}
+
+function insertEntry(
+  entries: Record<string, string>,
+  name: string,
+  value: string,
+  after: string | undefined,
+): Record<string, string> {
+  const list = Object.entries(entries);
+  const index =
+    after === undefined ? 0 : list.findIndex(([key]) => key === after) + 1;
+  list.splice(index, 0, [name, value]);
+  return Object.fromEntries(list);
+}
+
+/**
+ * Apply the script and dependency changes between two renders of a
+ * package.json to the project's copy, leaving everything else as the user has it
+ */
+export function mergePackageJsonChanges(
+  current: PackageJson,
+  before: PackageJson,
+  after: PackageJson,
+): PackageJson {
+  const merged = { ...current };
+
+  for (const field of MERGED_FIELDS) {
+    const oldEntries = (before[field] ?? {}) as Record<string, string>;
+    const newEntries = (after[field] ?? {}) as Record<string, string>;
+    let entries = { ...((current[field] ?? {}) as Record<string, string>) };
+
+    const newNames = Object.keys(newEntries);
+    for (const [index, name] of newNames.entries()) {
+      if (oldEntries[name] === newEntries[name]) {
+        continue;
+      }
+      if (name in entries) {
+        entries[name] = newEntries[name];
+        continue;
+      }
+      // Keep the template's order by inserting after the entry preceding it
+      const previous = newNames
+        .slice(0, index)
+        .reverse()
+        .find((previousName) => previousName in entries);
+      entries = insertEntry(entries, name, newEntries[name], previous);
+    }
+    for (const name of Object.keys(oldEntries)) {
+      if (!(name in newEntries)) {
+        delete entries[name];
+      }
+    }
+
+    if (Object.keys(entries).length > 0 || field in current) {
+      merged[field] = entries;
+    }
+  }
+
+  return merged;
+}
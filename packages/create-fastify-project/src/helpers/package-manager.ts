@@ -0,0 +1,270 @@
+import type { FilePlan, PlannedCommand } from "./file-plan";
+import { updatePackageJson } from "./package-json";
+
+export type PackageManager = "pnpm" | "npm" | "yarn" | "bun";
+
+export const PACKAGE_MANAGERS: PackageManager[] = [
+  "pnpm",
+  "npm",
+  "yarn",
+  "bun",
+];
+
+export interface PackageManagerInfo {
+  name: PackageManager;
+  /** Version pinned in `packageManager` when it can't be detected */
+  version: string;
+  lockfile: string;
+  /** Whether `workspace:*` dependency versions are understood */
+  workspaceProtocol: boolean;
+  /** Prefix to run a package.json script, e.g. `npm run` */
+  run: string;
+  /** Command to run a binary from node_modules, e.g. `npx` */
+  exec: string[];
+  cacheClean: string;
+  installSteps: string[];
+  helpUrl: string;
+}
+
+const PACKAGE_MANAGER_INFO: Record<PackageManager, PackageManagerInfo> = {
+  pnpm: {
+    name: "pnpm",
+    version: "10.11.1",
+    lockfile: "pnpm-lock.yaml",
+    workspaceProtocol: true,
+    run: "pnpm",
+    exec: ["pnpm"],
+    cacheClean: "pnpm store prune",
+    installSteps: [
+      "Install PNPM with: npm install -g pnpm",
+      "Or using Corepack: corepack enable",
+    ],
+    helpUrl: "https://pnpm.io/installation",
+  },
+  npm: {
+    name: "npm",
+    version: "10.9.2",
+    lockfile: "package-lock.json",
+    workspaceProtocol: false,
+    run: "npm run",
+    exec: ["npx"],
+    cacheClean: "npm cache clean --force",
+    installSteps: ["npm ships with Node.js, reinstall Node.js to restore it"],
+    helpUrl:
+      "https://docs.npmjs.com/downloading-and-installing-node-js-and-npm",
+  },
+  yarn: {
+    name: "yarn",
+    version: "4.9.1",
+    lockfile: "yarn.lock",
+    workspaceProtocol: true,
+    run: "yarn",
+    exec: ["yarn"],
+    cacheClean: "yarn cache clean",
+    installSteps: ["Enable Yarn with Corepack: corepack enable"],
+    helpUrl: "https://yarnpkg.com/getting-started/install",
+  },
+  bun: {
+    name: "bun",
+    version: "1.2.15",
+    lockfile: "bun.lock",
+    workspaceProtocol: true,
+    run: "bun run",
+    exec: ["bunx"],
+    cacheClean: "bun pm cache rm",
+    installSteps: [
+      "Install Bun with: curl -fsSL https://bun.sh/install | bash",
+    ],
+    helpUrl: "https://bun.sh/docs/installation",
+  },
+};
+
+export function getPackageManager(name: PackageManager): PackageManagerInfo {
+  return PACKAGE_MANAGER_INFO[name];
+}
+
+/**
+ * Parse the package manager and version from `npm_config_user_agent`,
+ * e.g. `pnpm/10.11.1 npm/? node/v20.19.5 linux x64`
+ */
+function parseUserAgent(
+  userAgent: string | undefined,
+): { name: PackageManager; version: string } | undefined {
+  const match = userAgent?.match(/^(pnpm|npm|yarn|bun)\/(\d+\.\d+\.\d+)/);
+  return match
+    ? { name: match[1] as PackageManager, version: match[2] }
+    : undefined;
+}
+
+/**
+ * The package manager the CLI was started with, e.g. via `npm create`
+ */
+export function detectPackageManager(
+  userAgent = process.env.npm_config_user_agent,
+): PackageManager | undefined {
+  return parseUserAgent(userAgent)?.name;
+}
+
+/**
+ * Value for the `packageManager` field, using the running version if it matches
+ */
+export function getPackageManagerSpec(
+  name: PackageManager,
+  userAgent = process.env.npm_config_user_agent,
+): string {
+  const detected = parseUserAgent(userAgent);
+  const version =
+    detected?.name === name
+      ? detected.version
+      : getPackageManager(name).version;
+  return `${name}@${version}`;
+}
+
+export function installCommand(name: PackageManager): PlannedCommand {
+  return { command: name, args: ["install"] };
+}
+
+export function runScriptCommand(
+  name: PackageManager,
+  script: string,
+  cwd?: string,
+): PlannedCommand {
+  const [command, ...args] = getPackageManager(name).run.split(" ");
+  return { command, args: [...args, script], cwd };
+}
+
+export function execCommand(
+  name: PackageManager,
+  binary: string,
+  args: string[],
+  cwd?: string,
+): PlannedCommand {
+  const [command, ...execArgs] = getPackageManager(name).exec;
+  return { command, args: [...execArgs, binary, ...args], cwd };
+}
+
+/**
+ * Shell text to run a package.json script, e.g. `npm run dev`
+ */
+export function formatRunScript(name: PackageManager, script: string): string {
+  return `${getPackageManager(name).run} ${script}`;
+}
+
+/**
+ * Read a top-level list from a simple YAML file like pnpm-workspace.yaml
+ */
+function readYamlList(content: string, key: string): string[] {
+  const items: string[] = [];
+  let inList = false;
+  for (const line of content.split("\n")) {
+    // Items may be indented or start at the beginning of the line
+    if (/^[^\s-]/.test(line)) {
+      inList = line.trim() === `${key}:`;
+      continue;
+    }
+    const item = line.match(/^\s*-\s*(.+?)\s*$/);
+    if (inList && item) {
+      items.push(item[1].replace(/^(['"])(.*)\1$/, "$2"));
+    }
+  }
+  return items;
+}
+
+function withoutWorkspaceProtocol(
+  dependencies: unknown,
+): Record<string, string> | undefined {
+  if (!dependencies) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    Object.entries(dependencies as Record<string, string>).map(
+      ([name, version]) => [
+        name,
+        version.startsWith("workspace:") ? "*" : version,
+      ],
+    ),
+  );
+}
+
+/**
+ * Turn a pnpm workspace into one for the chosen package manager
+ * Templates are written for pnpm, so pnpm projects are left untouched
+ */
+export function configurePackageManager(
+  plan: FilePlan,
+  name: PackageManager,
+): void {
+  if (name === "pnpm") {
+    return;
+  }
+  const info = getPackageManager(name);
+
+  let workspaces: string[] = [];
+  let builtDependencies: string[] = [];
+  if (plan.has("pnpm-workspace.yaml")) {
+    const workspaceConfig = plan.read("pnpm-workspace.yaml");
+    // Literal entries like `cli` may not exist in the generated project
+    workspaces = readYamlList(workspaceConfig, "packages").filter(
+      (pattern) => pattern.includes("*") || plan.has(`${pattern}/package.json`),
+    );
+    builtDependencies = readYamlList(workspaceConfig, "onlyBuiltDependencies");
+    plan.delete("pnpm-workspace.yaml", `replaced by workspaces for ${name}`);
+  }
+  if (plan.has("pnpm-lock.yaml")) {
+    plan.delete("pnpm-lock.yaml", `${name} creates ${info.lockfile}`);
+  }
+
+  const packageJsonPaths = plan
+    .paths()
+    .filter(
+      (path) =>
+        (path === "package.json" || path.endsWith("/package.json")) &&
+        !path.split("/").includes("node_modules"),
+    );
+
+  for (const path of packageJsonPaths) {
+    updatePackageJson(plan, path, (packageJson) => {
+      const updated = { ...packageJson };
+      if (updated.packageManager) {
+        updated.packageManager = getPackageManagerSpec(name);
+      }
+      const { pnpm, ...engines } = (updated.engines ?? {}) as Record<
+        string,
+        string
+      >;
+      if (pnpm) {
+        updated.engines = engines;
+      }
+      if (!info.workspaceProtocol) {
+        updated.dependencies = withoutWorkspaceProtocol(updated.dependencies);
+        updated.devDependencies = withoutWorkspaceProtocol(
+          updated.devDependencies,
+        );
+      }
+      return updated;
+    });
+  }
+
+  if (workspaces.length > 0 && plan.has("package.json")) {
+    updatePackageJson(plan, "package.json", (packageJson) => {
+      const { name: packageName, version, ...rest } = packageJson;
+      return {
+        name: packageName,
+        version,
+        // Yarn only allows workspaces in private packages
+        private: true,
+        workspaces,
+        ...rest,
+        // Bun skips install scripts unless a dependency is trusted
+        ...(name === "bun" && builtDependencies.length > 0
+          ? { trustedDependencies: builtDependencies }
+          : {}),
+      };
+    });
+  }
+
+  if (name === "yarn") {
+    // Plug'n'Play doesn't work with every tool in the template
+    plan.add(".yarnrc.yml", "nodeLinker: node-modules\n");
+  }
+}
@@ -0,0 +1,138 @@
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { DEFAULT_TEMPLATE } from "../template-registry";
+import type { ProjectOptions } from "../types";
+import { DEFAULT_OPTIONS } from "./config";
+import { readLockfile } from "./lockfile";
+import { parsePackageJson } from "./package-json";
+import {
+  PACKAGE_MANAGERS,
+  type PackageManager,
+  getPackageManager,
+} from "./package-manager";
+
+export interface DetectedProject {
+  projectName: string;
+  options: ProjectOptions;
+  /** Template prompt answers, known when the project has a lockfile */
+  answers?: Record<string, string | boolean>;
+}
+
+const PRISMA_SCHEMA_PATH = "packages/database/prisma/schema.prisma";
+const DRIZZLE_CONFIG_PATH = "packages/database/drizzle.config.ts";
+
+/** Where each ORM keeps its migrations */
+const MIGRATIONS_PATHS: Record<"prisma" | "drizzle", string> = {
+  prisma: "packages/database/prisma/migrations",
+  drizzle: "packages/database/drizzle",
+};
+
+const DATABASE_PROVIDERS: Record<string, ProjectOptions["db"]> = {
+  sqlite: "sqlite",
+  postgresql: "postgres",
+  mysql: "mysql",
+};
+
+function detectProjectPackageManager(
+  projectPath: string,
+  packageJson: Record<string, unknown>,
+): PackageManager {
+  const declared = String(packageJson.packageManager ?? "").split("@")[0];
+  if (PACKAGE_MANAGERS.includes(declared as PackageManager)) {
+    return declared as PackageManager;
+  }
+  return (
+    PACKAGE_MANAGERS.find((name) =>
+      existsSync(join(projectPath, getPackageManager(name).lockfile)),
+    ) ?? "pnpm"
+  );
+}
+
+/**
+ * The datasource provider declared in a Prisma schema, e.g. `postgresql`
+ */
+export function readDatabaseProvider(schemaPath: string): string | undefined {
+  return readFileSync(schemaPath, "utf-8").match(
+    /datasource\s+\w+\s*\{[^}]*provider\s*=\s*"(\w+)"/,
+  )?.[1];
+}
+
+/**
+ * The dialect declared in a Drizzle config, e.g. `postgresql`
+ */
+function readDrizzleDialect(configPath: string): string | undefined {
+  return readFileSync(configPath, "utf-8").match(/dialect:\s*"(\w+)"/)?.[1];
+}
+
+/**
+ * The ORM and database a project's database package uses
+ */
+function detectDatabase(
+  projectPath: string,
+): Pick<ProjectOptions, "orm" | "db"> {
+  const schemaPath = join(projectPath, PRISMA_SCHEMA_PATH);
+  if (existsSync(schemaPath)) {
+    return {
+      orm: "prisma",
+      db:
+        DATABASE_PROVIDERS[readDatabaseProvider(schemaPath) ?? ""] ?? "sqlite",
+    };
+  }
+  const configPath = join(projectPath, DRIZZLE_CONFIG_PATH);
+  if (existsSync(configPath)) {
+    return {
+      orm: "drizzle",
+      db: DATABASE_PROVIDERS[readDrizzleDialect(configPath) ?? ""] ?? "sqlite",
+    };
+  }
+  return { orm: "none", db: "sqlite" };
+}
+
+/**
+ * Work out the options an existing project was generated with from its files
+ */
+export function detectProject(projectPath: string): DetectedProject {
+  const packageJsonPath = join(projectPath, "package.json");
+  if (!existsSync(packageJsonPath)) {
+    throw new Error(
+      `No package.json found in ${projectPath}. Run this command in the root of a project created with create-fastify-project`,
+    );
+  }
+  if (!existsSync(join(projectPath, "apps/api/package.json"))) {
+    throw new Error(
+      `${projectPath} does not look like a project created with create-fastify-project (apps/api is missing)`,
+    );
+  }
+
+  const packageJson = parsePackageJson(
+    readFileSync(packageJsonPath, "utf-8"),
+    packageJsonPath,
+  );
+  const { orm, db } = detectDatabase(projectPath);
+  const lockfile = readLockfile(projectPath);
+
+  return {
+    projectName: lockfile?.projectName ?? String(packageJson.name ?? ""),
+    answers: lockfile?.answers,
+    options: {
+      template: lockfile?.options.template ?? DEFAULT_TEMPLATE,
+      install: existsSync(join(projectPath, "node_modules")),
+      git: existsSync(join(projectPath, ".git")),
+      orm,
+      db,
+      dbWorkflow:
+        lockfile?.options.dbWorkflow ??
+        (orm !== "none" && existsSync(join(projectPath, MIGRATIONS_PATHS[orm]))
+          ? "migrate"
+          : "push"),
+      seed: lockfile?.options.seed ?? false,
+      lint: existsSync(join(projectPath, "eslint.config.js"))
+        ? "eslint"
+        : "biome",
+      openapi: existsSync(join(projectPath, "apps/api/src/plugins/swagger.ts")),
+      apiPort: lockfile?.options.apiPort ?? DEFAULT_OPTIONS.apiPort,
+      webPort: lockfile?.options.webPort ?? DEFAULT_OPTIONS.webPort,
+      pm: detectProjectPackageManager(projectPath, packageJson),
+    },
+  };
+}
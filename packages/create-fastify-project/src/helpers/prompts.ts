@@ -1,65 +1,252 @@
 import chalk from "chalk";
 import prompts from "prompts";
+import { DEFAULT_TEMPLATE, TEMPLATES, getTemplate } from "../template-registry";
 import type { ProjectOptions } from "../types";
 import { logger } from "./logger";
+import {
+  PACKAGE_MANAGERS,
+  type PackageManager,
+  detectPackageManager,
+} from "./package-manager";
+import type { TemplatePrompt } from "./template-manifest";
+import { isValidPort } from "./validation";
 
 export interface InteractiveOptions extends ProjectOptions {
   projectName: string;
 }
 
+type SupportedOption = "orm" | "db" | "lint";
+
+const DB_CHOICES: prompts.Choice[] = [
+  {
+    title: "SQLite",
+    description: "Lightweight, file-based database (great for development)",
+    value: "sqlite",
+  },
+  {
+    title: "PostgreSQL",
+    description: "Powerful, production-ready relational database",
+    value: "postgres",
+  },
+  {
+    title: "MySQL",
+    description: "Popular, widely-supported relational database",
+    value: "mysql",
+  },
+];
+
+const ORM_CHOICES: prompts.Choice[] = [
+  {
+    title: "Prisma",
+    description: "Modern, type-safe ORM with great developer experience",
+    value: "prisma",
+  },
+  {
+    title: "Drizzle",
+    description: "Lightweight, SQL-like TypeScript ORM",
+    value: "drizzle",
+  },
+  {
+    title: "None",
+    description: "Use raw SQL queries (more control, less abstraction)",
+    value: "none",
+  },
+];
+
+const DB_WORKFLOW_CHOICES: prompts.Choice[] = [
+  {
+    title: "Push",
+    description: "Push the schema, quick to iterate on without history",
+    value: "push",
+  },
+  {
+    title: "Migrations",
+    description: "Versioned SQL migrations to deploy to production",
+    value: "migrate",
+  },
+];
+
+const LINT_CHOICES: prompts.Choice[] = [
+  {
+    title: "Biome",
+    description: "Fast, modern linter and formatter (recommended)",
+    value: "biome",
+  },
+  {
+    title: "ESLint",
+    description: "Popular, highly configurable JavaScript linter",
+    value: "eslint",
+  },
+];
+
+const PM_CHOICES: prompts.Choice[] = PACKAGE_MANAGERS.map((pm) => ({
+  title: pm,
+  value: pm,
+}));
+
 /**
- * Prompt for missing options interactively
+ * Exit on Ctrl+C, registered cleanup removes temporary and staged files
  */
-export async function promptForOptions(
-  cliOptions: Partial<ProjectOptions>,
-): Promise<ProjectOptions> {
-  // If all options are provided via CLI, skip interactive prompts
-  const hasAllOptions =
+function cancelOperation(): never {
+  logger.error("\n❌ Operation cancelled");
+  process.exit(1);
+}
+
+function filterSupported(
+  option: SupportedOption,
+  choices: prompts.Choice[],
+  templateName: string,
+): prompts.Choice[] {
+  const template = getTemplate(templateName);
+  if (!template) {
+    return choices;
+  }
+  const supported = template.supports[option] as string[];
+  return choices.filter((choice) => supported.includes(choice.value));
+}
+
+/**
+ * Limit a select prompt to the values supported by the chosen template
+ */
+function supportedChoices(
+  option: SupportedOption,
+  choices: prompts.Choice[],
+  cliTemplate?: string,
+): prompts.PrevCaller<string, prompts.Choice[]> {
+  return (_prev, values) =>
+    filterSupported(
+      option,
+      choices,
+      cliTemplate ?? (values.template as string) ?? DEFAULT_TEMPLATE,
+    );
+}
+
+/**
+ * Preselect a value, e.g. from a preset, among the supported choices
+ */
+function initialChoice(
+  option: SupportedOption,
+  choices: prompts.Choice[],
+  cliTemplate?: string,
+  value?: string,
+): prompts.PrevCaller<string, number> {
+  return (_prev, values) =>
+    Math.max(
+      0,
+      filterSupported(
+        option,
+        choices,
+        cliTemplate ?? (values.template as string) ?? DEFAULT_TEMPLATE,
+      ).findIndex((choice) => choice.value === value),
+    );
+}
+
+function validatePortAnswer(value: number): true | string {
+  return isValidPort(value) || "Must be a whole number between 1 and 65535";
+}
+
+/**
+ * Whether every option was provided via CLI, so no prompts are needed
+ */
+export function hasAllOptions(cliOptions: Partial<ProjectOptions>): boolean {
+  return (
+    cliOptions.template !== undefined &&
     cliOptions.db !== undefined &&
     cliOptions.orm !== undefined &&
+    cliOptions.dbWorkflow !== undefined &&
+    cliOptions.seed !== undefined &&
     cliOptions.lint !== undefined &&
+    cliOptions.openapi !== undefined &&
+    cliOptions.apiPort !== undefined &&
+    cliOptions.webPort !== undefined &&
     cliOptions.git !== undefined &&
-    cliOptions.install !== undefined;
+    cliOptions.install !== undefined &&
+    cliOptions.pm !== undefined
+  );
+}
 
-  if (hasAllOptions) {
-    return {
-      db: cliOptions.db as "sqlite" | "postgres" | "mysql",
-      orm: cliOptions.orm as "prisma" | "none",
-      lint: cliOptions.lint as "biome" | "eslint",
-      git: cliOptions.git as boolean,
-      install: cliOptions.install as boolean,
-    };
+/**
+ * Merge CLI options with interactive answers and fill in the defaults
+ * CLI options take precedence
+ */
+function withDefaults(
+  cliOptions: Partial<ProjectOptions>,
+  answers: Record<string, unknown>,
+): ProjectOptions {
+  return {
+    template:
+      cliOptions.template ?? (answers.template as string) ?? DEFAULT_TEMPLATE,
+    db:
+      cliOptions.db ??
+      (answers.db as "sqlite" | "postgres" | "mysql") ??
+      "sqlite",
+    orm:
+      cliOptions.orm ??
+      (answers.orm as "prisma" | "drizzle" | "none") ??
+      "prisma",
+    dbWorkflow:
+      cliOptions.dbWorkflow ??
+      (answers.dbWorkflow as "push" | "migrate") ??
+      "push",
+    seed: cliOptions.seed ?? (answers.seed as boolean) ?? true,
+    lint: cliOptions.lint ?? (answers.lint as "biome" | "eslint") ?? "biome",
+    openapi: cliOptions.openapi ?? (answers.openapi as boolean) ?? true,
+    apiPort: cliOptions.apiPort ?? (answers.apiPort as number) ?? 3000,
+    webPort: cliOptions.webPort ?? (answers.webPort as number) ?? 5173,
+    git: cliOptions.git ?? (answers.git as boolean) ?? true,
+    install: cliOptions.install ?? (answers.install as boolean) ?? true,
+    pm:
+      cliOptions.pm ??
+      (answers.pm as PackageManager) ??
+      detectPackageManager() ??
+      "pnpm",
+  };
+}
+
+/**
+ * Prompt for missing options interactively
+ * `initial` preselects values from presets and config files
+ */
+export async function promptForOptions(
+  cliOptions: Partial<ProjectOptions>,
+  yes = false,
+  initial: Partial<ProjectOptions> = {},
+): Promise<ProjectOptions> {
+  // If all options are provided via CLI or --yes is set, skip interactive prompts
+  if (hasAllOptions(cliOptions) || yes) {
+    return withDefaults(cliOptions, initial);
   }
 
   logger.dim("Let's set up your Fastify project...\n");
 
   const questions: prompts.PromptObject[] = [];
 
+  // Frontend template selection
+  if (cliOptions.template === undefined) {
+    questions.push({
+      type: "select",
+      name: "template",
+      message: "Which frontend?",
+      choices: TEMPLATES.map((template) => ({
+        title: template.title,
+        description: template.description,
+        value: template.name,
+      })),
+      initial: Math.max(
+        0,
+        TEMPLATES.findIndex((template) => template.name === initial.template),
+      ),
+    });
+  }
+
   // Database selection
   if (cliOptions.db === undefined) {
     questions.push({
       type: "select",
       name: "db",
       message: "Which database would you like to use?",
-      choices: [
-        {
-          title: "SQLite",
-          description:
-            "Lightweight, file-based database (great for development)",
-          value: "sqlite",
-        },
-        {
-          title: "PostgreSQL",
-          description: "Powerful, production-ready relational database",
-          value: "postgres",
-        },
-        {
-          title: "MySQL",
-          description: "Popular, widely-supported relational database",
-          value: "mysql",
-        },
-      ],
-      initial: 0,
+      choices: supportedChoices("db", DB_CHOICES, cliOptions.template),
+      initial: initialChoice("db", DB_CHOICES, cliOptions.template, initial.db),
     });
   }
 
@@ -69,19 +256,44 @@ export async function promptForOptions(
       type: "select",
       name: "orm",
       message: "Would you like to use an ORM?",
-      choices: [
-        {
-          title: "Prisma",
-          description: "Modern, type-safe ORM with great developer experience",
-          value: "prisma",
-        },
-        {
-          title: "None",
-          description: "Use raw SQL queries (more control, less abstraction)",
-          value: "none",
-        },
-      ],
-      initial: 0,
+      choices: supportedChoices("orm", ORM_CHOICES, cliOptions.template),
+      initial: initialChoice(
+        "orm",
+        ORM_CHOICES,
+        cliOptions.template,
+        initial.orm,
+      ),
+    });
+  }
+
+  // Schema workflow, only with an ORM
+  if (cliOptions.dbWorkflow === undefined) {
+    questions.push({
+      type: (_prev, values) =>
+        (cliOptions.orm ?? values.orm) !== "none" ? "select" : null,
+      name: "dbWorkflow",
+      message: "How should schema changes reach the database?",
+      choices: DB_WORKFLOW_CHOICES,
+      initial: Math.max(
+        0,
+        DB_WORKFLOW_CHOICES.findIndex(
+          (choice) => choice.value === initial.dbWorkflow,
+        ),
+      ),
+    });
+  }
+
+  // Sample data, only seeded right away for SQLite
+  if (cliOptions.seed === undefined) {
+    questions.push({
+      type: (_prev, values) =>
+        (cliOptions.orm ?? values.orm) !== "none" &&
+        (cliOptions.db ?? values.db) === "sqlite"
+          ? "confirm"
+          : null,
+      name: "seed",
+      message: "Seed sample data?",
+      initial: initial.seed ?? true,
     });
   }
 
@@ -91,19 +303,44 @@ export async function promptForOptions(
       type: "select",
       name: "lint",
       message: "Which linter would you prefer?",
-      choices: [
-        {
-          title: "Biome",
-          description: "Fast, modern linter and formatter (recommended)",
-          value: "biome",
-        },
-        {
-          title: "ESLint",
-          description: "Popular, highly configurable JavaScript linter",
-          value: "eslint",
-        },
-      ],
-      initial: 0,
+      choices: supportedChoices("lint", LINT_CHOICES, cliOptions.template),
+      initial: initialChoice(
+        "lint",
+        LINT_CHOICES,
+        cliOptions.template,
+        initial.lint,
+      ),
+    });
+  }
+
+  // API documentation
+  if (cliOptions.openapi === undefined) {
+    questions.push({
+      type: "confirm",
+      name: "openapi",
+      message: "Generate an OpenAPI spec and serve Swagger UI from the API?",
+      initial: initial.openapi ?? true,
+    });
+  }
+
+  // Dev server ports
+  if (cliOptions.apiPort === undefined) {
+    questions.push({
+      type: "number",
+      name: "apiPort",
+      message: "Which port should the API listen on?",
+      initial: initial.apiPort ?? 3000,
+      validate: validatePortAnswer,
+    });
+  }
+
+  if (cliOptions.webPort === undefined) {
+    questions.push({
+      type: "number",
+      name: "webPort",
+      message: "Which port should the web app listen on?",
+      initial: initial.webPort ?? 5173,
+      validate: validatePortAnswer,
     });
   }
 
@@ -113,7 +350,7 @@ export async function promptForOptions(
       type: "confirm",
       name: "git",
       message: "Initialize a git repository?",
-      initial: true,
+      initial: initial.git ?? true,
     });
   }
 
@@ -123,7 +360,21 @@ export async function promptForOptions(
       type: "confirm",
       name: "install",
       message: "Install dependencies?",
-      initial: true,
+      initial: initial.install ?? true,
+    });
+  }
+
+  // Package manager selection
+  if (cliOptions.pm === undefined) {
+    questions.push({
+      type: "select",
+      name: "pm",
+      message: "Which package manager?",
+      choices: PM_CHOICES,
+      initial: Math.max(
+        0,
+        PM_CHOICES.findIndex((choice) => choice.value === initial.pm),
+      ),
     });
   }
 
@@ -131,24 +382,77 @@ export async function promptForOptions(
   let answers: Record<string, unknown> = {};
   if (questions.length > 0) {
     answers = await prompts(questions, {
-      onCancel: () => {
-        logger.error("\n❌ Operation cancelled");
-        process.exit(1);
-      },
+      onCancel: cancelOperation,
     });
   }
 
-  // Merge CLI options with interactive answers, CLI options take precedence
-  return {
-    db:
-      cliOptions.db ??
-      (answers.db as "sqlite" | "postgres" | "mysql") ??
-      "sqlite",
-    orm: cliOptions.orm ?? (answers.orm as "prisma" | "none") ?? "prisma",
-    lint: cliOptions.lint ?? (answers.lint as "biome" | "eslint") ?? "biome",
-    git: cliOptions.git ?? (answers.git as boolean) ?? true,
-    install: cliOptions.install ?? (answers.install as boolean) ?? true,
-  };
+  return withDefaults(cliOptions, answers);
+}
+
+/**
+ * Ask the extra questions a template declares in its manifest
+ * Falls back to each prompt's initial value when running non-interactively,
+ * as there are no flags to answer them with
+ */
+export async function promptForTemplateVariables(
+  templatePrompts: TemplatePrompt[],
+  interactive: boolean,
+): Promise<Record<string, string | boolean>> {
+  const defaults: Record<string, string | boolean> = {};
+  for (const prompt of templatePrompts) {
+    defaults[prompt.name] =
+      prompt.initial ??
+      (prompt.type === "confirm" ? false : (prompt.choices?.[0]?.value ?? ""));
+  }
+
+  if (templatePrompts.length === 0 || !interactive) {
+    return defaults;
+  }
+
+  const questions: prompts.PromptObject[] = templatePrompts.map((prompt) => ({
+    type: prompt.type,
+    name: prompt.name,
+    message: prompt.message,
+    choices: prompt.choices,
+    initial:
+      prompt.type === "select"
+        ? Math.max(
+            0,
+            prompt.choices?.findIndex(
+              (choice) => choice.value === prompt.initial,
+            ) ?? 0,
+          )
+        : prompt.initial,
+  }));
+
+  const answers = await prompts(questions, {
+    onCancel: cancelOperation,
+  });
+
+  return { ...defaults, ...answers };
+}
+
+/**
+ * Ask what to do with an existing file the template would overwrite
+ */
+export async function promptForConflict(
+  path: string,
+): Promise<"overwrite" | "skip" | "diff"> {
+  const { action } = await prompts(
+    {
+      type: "select",
+      name: "action",
+      message: `${path} already exists`,
+      choices: [
+        { title: "Overwrite", value: "overwrite" },
+        { title: "Skip", value: "skip", description: "Keep the existing file" },
+        { title: "Show diff", value: "diff" },
+      ],
+    },
+    { onCancel: cancelOperation },
+  );
+
+  return action;
 }
 
 /**
@@ -177,10 +481,7 @@ export async function promptForProjectName(): Promise<string> {
       },
     },
     {
-      onCancel: () => {
-        logger.error("\n❌ Operation cancelled");
-        process.exit(1);
-      },
+      onCancel: cancelOperation,
     },
   );
 
@@ -190,9 +491,12 @@ export async function promptForProjectName(): Promise<string> {
 /**
  * Full interactive mode - prompts for both project name and options
  */
-export async function runInteractiveMode(): Promise<InteractiveOptions> {
+export async function runInteractiveMode(
+  cliOptions: Partial<ProjectOptions> = {},
+  initial: Partial<ProjectOptions> = {},
+): Promise<InteractiveOptions> {
   const projectName = await promptForProjectName();
-  const options = await promptForOptions({});
+  const options = await promptForOptions(cliOptions, false, initial);
 
   return {
     projectName,
@@ -0,0 +1,109 @@
+import type { OptionSources, ProjectOptions } from "../types";
+
+export type StepStatus = "success" | "failed" | "skipped";
+
+export interface StepResult {
+  name: string;
+  status: StepStatus;
+  durationMs: number;
+}
+
+/**
+ * Machine-readable summary of a run, printed with `--json`
+ */
+export class RunReport {
+  private readonly startTime = Date.now();
+  private readonly steps: StepResult[] = [];
+  private running: { name: string; startTime: number } | null = null;
+  private emitted = false;
+
+  projectName?: string;
+  projectPath?: string;
+  dryRun = false;
+  options?: ProjectOptions;
+  sources?: Partial<OptionSources>;
+  /** Files written, or that would be written in a dry run */
+  files: string[] = [];
+  removed: Array<{ path: string; reason: string }> = [];
+  conflicts: string[] = [];
+  /** Commands that would run in a dry run */
+  commands: string[] = [];
+  unfinished: Array<{ title: string; commands: string[] }> = [];
+  errors: string[] = [];
+
+  /**
+   * Run a step and record its outcome
+   * Steps that report failure by return value pass `succeeded`
+   */
+  async step<T>(
+    name: string,
+    run: () => Promise<T>,
+    succeeded: (result: T) => boolean = () => true,
+  ): Promise<T> {
+    this.running = { name, startTime: Date.now() };
+    const result = await run();
+    this.finishRunning(succeeded(result) ? "success" : "failed");
+    return result;
+  }
+
+  skip(name: string): void {
+    this.steps.push({ name, status: "skipped", durationMs: 0 });
+  }
+
+  addError(message: string): void {
+    this.errors.push(message);
+  }
+
+  /**
+   * Print the report as the only stdout output once the process exits
+   * Workflows exit on fatal errors, so this also covers failed runs
+   */
+  enable(): void {
+    process.on("exit", (code) => this.emit(code));
+  }
+
+  toJSON(exitCode: number): Record<string, unknown> {
+    return {
+      success: exitCode === 0,
+      exitCode,
+      dryRun: this.dryRun,
+      projectName: this.projectName,
+      projectPath: this.projectPath,
+      options: this.options,
+      sources: this.sources,
+      files: this.files,
+      removed: this.removed,
+      conflicts: this.conflicts,
+      commands: this.commands,
+      unfinished: this.unfinished,
+      steps: this.steps,
+      errors: this.errors,
+      durationMs: Date.now() - this.startTime,
+    };
+  }
+
+  private finishRunning(status: StepStatus): void {
+    if (this.running) {
+      this.steps.push({
+        name: this.running.name,
+        status,
+        durationMs: Date.now() - this.running.startTime,
+      });
+      this.running = null;
+    }
+  }
+
+  private emit(exitCode: number): void {
+    if (this.emitted) {
+      return;
+    }
+    this.emitted = true;
+
+    // A step still running when the process exits is the one that failed
+    this.finishRunning("failed");
+    process.stdout.write(`${JSON.stringify(this.toJSON(exitCode), null, 2)}\n`);
+  }
+}
+
+// Export a singleton instance
+export const report = new RunReport();
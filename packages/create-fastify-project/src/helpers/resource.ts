@@ -0,0 +1,173 @@
+export type FieldType = "string" | "int" | "float" | "boolean" | "datetime";
+
+interface FieldTypeInfo {
+  prisma: string;
+  /** Type of the value in API responses */
+  ts: string;
+  /** Type accepted when creating or updating a record */
+  inputTs: string;
+  /** TypeBox schema of the value in requests and responses */
+  typebox: string;
+  htmlInput: string;
+  /** Prisma attributes, e.g. a default value */
+  attributes?: string;
+}
+
+export const FIELD_TYPES: Record<FieldType, FieldTypeInfo> = {
+  string: {
+    prisma: "String",
+    ts: "string",
+    inputTs: "string",
+    typebox: "Type.String()",
+    htmlInput: "text",
+  },
+  int: {
+    prisma: "Int",
+    ts: "number",
+    inputTs: "number",
+    typebox: "Type.Integer()",
+    htmlInput: "number",
+  },
+  float: {
+    prisma: "Float",
+    ts: "number",
+    inputTs: "number",
+    typebox: "Type.Number()",
+    htmlInput: "number",
+  },
+  boolean: {
+    prisma: "Boolean",
+    ts: "boolean",
+    inputTs: "boolean",
+    typebox: "Type.Boolean()",
+    htmlInput: "checkbox",
+    attributes: "@default(false)",
+  },
+  datetime: {
+    prisma: "DateTime",
+    ts: "string",
+    inputTs: "Date | string",
+    typebox: "DateTimeSchema()",
+    htmlInput: "datetime-local",
+  },
+};
+
+/** Fields every generated model has */
+const RESERVED_FIELDS = ["id", "createdAt", "updatedAt"];
+
+export interface ResourceField extends FieldTypeInfo {
+  name: string;
+  /** `Due at` for `dueAt` */
+  label: string;
+  type: FieldType;
+  /** Nullable in the database */
+  optional: boolean;
+  /** Can be left out when creating a record */
+  required: boolean;
+}
+
+export interface ResourceNames {
+  /** `BlogPost` */
+  model: string;
+  /** `blogPost`, the Prisma client property */
+  camel: string;
+  /** `BlogPosts` */
+  pluralModel: string;
+  /** `blogPosts` */
+  pluralCamel: string;
+  /** `blog-posts`, used for URLs and file names */
+  pluralKebab: string;
+  /** `blog post` */
+  label: string;
+  /** `blog posts` */
+  pluralLabel: string;
+}
+
+function splitWords(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[\s_-]+/)
+    .filter(Boolean)
+    .map((word) => word.toLowerCase());
+}
+
+function pluralize(word: string): string {
+  if (/[^aeiou]y$/.test(word)) {
+    return `${word.slice(0, -1)}ies`;
+  }
+  if (/(s|x|z|ch|sh)$/.test(word)) {
+    return `${word}es`;
+  }
+  return `${word}s`;
+}
+
+export const capitalize = (word: string) =>
+  word[0].toUpperCase() + word.slice(1);
+
+/**
+ * Names derived from a resource name like `BlogPost` or `blog-post`
+ */
+export function getResourceNames(name: string): ResourceNames {
+  const words = splitWords(name);
+  if (words.length === 0 || !/^[a-z]/.test(words[0])) {
+    throw new Error(
+      `Invalid resource name "${name}". Use letters and digits, starting with a letter, e.g. BlogPost`,
+    );
+  }
+  const pluralWords = [...words.slice(0, -1), pluralize(words.at(-1) ?? "")];
+  const model = words.map(capitalize).join("");
+  const pluralModel = pluralWords.map(capitalize).join("");
+  return {
+    model,
+    camel: model[0].toLowerCase() + model.slice(1),
+    pluralModel,
+    pluralCamel: pluralModel[0].toLowerCase() + pluralModel.slice(1),
+    pluralKebab: pluralWords.join("-"),
+    label: words.join(" "),
+    pluralLabel: pluralWords.join(" "),
+  };
+}
+
+/**
+ * Parse `--fields title:string,done:boolean,dueAt:datetime?`
+ * A trailing `?` makes a field optional
+ */
+export function parseFields(input: string): ResourceField[] {
+  const fields: ResourceField[] = [];
+  for (const definition of input.split(",").map((part) => part.trim())) {
+    if (!definition) {
+      continue;
+    }
+    const match = definition.match(/^([a-zA-Z][a-zA-Z0-9]*):(\w+)(\?)?$/);
+    if (!match) {
+      throw new Error(
+        `Invalid field "${definition}". Use name:type, e.g. title:string`,
+      );
+    }
+    const [, name, type, optional] = match;
+    if (!(type in FIELD_TYPES)) {
+      throw new Error(
+        `Unknown type "${type}" for field ${name}. Available types: ${Object.keys(FIELD_TYPES).join(", ")}`,
+      );
+    }
+    if (RESERVED_FIELDS.includes(name)) {
+      throw new Error(`Field ${name} is added to every resource already`);
+    }
+    if (fields.some((field) => field.name === name)) {
+      throw new Error(`Field ${name} is defined twice`);
+    }
+    const info = FIELD_TYPES[type as FieldType];
+    fields.push({
+      ...info,
+      name,
+      label: capitalize(splitWords(name).join(" ")),
+      type: type as FieldType,
+      optional: Boolean(optional),
+      required: !optional && !info.attributes,
+    });
+  }
+  if (fields.length === 0) {
+    throw new Error("A resource needs at least one field, e.g. title:string");
+  }
+  return fields;
+}
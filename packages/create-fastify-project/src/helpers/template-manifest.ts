@@ -0,0 +1,155 @@
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import ejs from "ejs";
+import type { TemplateSupport } from "../template-registry";
+import type { ProjectOptions } from "../types";
+import { getDatabaseUrl } from "./env";
+import { getPackageManager } from "./package-manager";
+
+export const MANIFEST_FILENAME = "template.json";
+
+/**
+ * Option or prompt values a rule applies to, e.g. `{ "orm": "none" }`
+ * Every key must match; an array matches any of its values
+ */
+export type TemplateCondition = Record<
+  string,
+  string | boolean | Array<string | boolean>
+>;
+
+export interface TemplatePrompt {
+  name: string;
+  type: "text" | "confirm" | "select";
+  message: string;
+  initial?: string | boolean;
+  choices?: Array<{ title: string; value: string; description?: string }>;
+}
+
+export interface TemplateFileRule {
+  /** Destination path, relative to the project root */
+  path: string;
+  /** Source path inside the template, defaults to `path` */
+  from?: string;
+  when: TemplateCondition;
+}
+
+export interface TemplateReplacementRule {
+  when?: TemplateCondition;
+  files: string[];
+  search: string;
+  replace: string;
+}
+
+export interface TemplatePackageJsonRule {
+  when?: TemplateCondition;
+  file: string;
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  removeScripts?: string[];
+  removeDependencies?: string[];
+  removeDevDependencies?: string[];
+}
+
+export interface TemplateManifest {
+  name: string;
+  /** Recorded in .fastify-project.json for templates outside the registry */
+  version?: string;
+  description?: string;
+  supports?: Partial<TemplateSupport>;
+  /** Extra render context values, may use EJS tags to reference earlier ones */
+  variables?: Record<string, string>;
+  prompts?: TemplatePrompt[];
+  /** Template paths that are never copied as-is (variant sources, the manifest) */
+  ignore?: string[];
+  files?: TemplateFileRule[];
+  replacements?: TemplateReplacementRule[];
+  packageJson?: TemplatePackageJsonRule[];
+}
+
+export type TemplateContext = Record<string, string | boolean>;
+
+/**
+ * Load `template.json` from a template directory
+ */
+export async function loadTemplateManifest(
+  templatePath: string,
+): Promise<TemplateManifest> {
+  const manifestPath = join(templatePath, MANIFEST_FILENAME);
+
+  if (!existsSync(manifestPath)) {
+    throw new Error(
+      `Template is missing its ${MANIFEST_FILENAME} manifest: ${templatePath}`,
+    );
+  }
+
+  try {
+    return JSON.parse(
+      await readFile(manifestPath, "utf-8"),
+    ) as TemplateManifest;
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${manifestPath}: ${error}`);
+  }
+}
+
+/**
+ * Build the values templates and manifest rules are rendered with
+ */
+export function createTemplateContext(
+  projectName: string,
+  options: ProjectOptions,
+  manifest: TemplateManifest,
+  answers: Record<string, string | boolean> = {},
+): TemplateContext {
+  const context: TemplateContext = {
+    projectName,
+    packageScope: `@${projectName}`,
+    template: options.template,
+    orm: options.orm,
+    db: options.db,
+    databaseUrl: getDatabaseUrl(projectName, options.db, options.orm),
+    dbWorkflow: options.dbWorkflow,
+    lint: options.lint,
+    openapi: options.openapi,
+    apiPort: String(options.apiPort),
+    webPort: String(options.webPort),
+    git: options.git,
+    install: options.install,
+    pm: options.pm,
+    pmRun: getPackageManager(options.pm).run,
+    ...answers,
+  };
+
+  for (const [name, value] of Object.entries(manifest.variables ?? {})) {
+    context[name] = renderString(value, context);
+  }
+
+  return context;
+}
+
+export function matchesCondition(
+  condition: TemplateCondition | undefined,
+  context: TemplateContext,
+): boolean {
+  if (!condition) {
+    return true;
+  }
+
+  return Object.entries(condition).every(([key, expected]) =>
+    Array.isArray(expected)
+      ? expected.includes(context[key])
+      : expected === context[key],
+  );
+}
+
+/**
+ * Render an EJS string with the template context
+ */
+export function renderString(
+  template: string,
+  context: TemplateContext,
+  filename?: string,
+): string {
+  return ejs.render(template, context, { filename, async: false });
+}
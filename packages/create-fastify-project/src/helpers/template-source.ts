@@ -0,0 +1,299 @@
+import { existsSync } from "node:fs";
+import { mkdtemp, readdir, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { execa } from "execa";
+import {
+  getCliVersion,
+  getTemplate,
+  resolveTemplatePath,
+} from "../template-registry";
+import { removeOnExit } from "./cleanup";
+
+export type TemplateSource =
+  | { type: "registry"; name: string }
+  | { type: "local"; path: string }
+  | { type: "tarball"; path: string }
+  | { type: "git"; url: string; ref?: string; subdir?: string };
+
+export interface FetchedTemplate {
+  path: string;
+  /** CLI version for bundled templates, commit SHA for git templates */
+  version?: string;
+  cleanup: () => Promise<void>;
+}
+
+const GIT_HOST_SHORTHANDS: Record<string, string> = {
+  github: "https://github.com",
+  gitlab: "https://gitlab.com",
+  bitbucket: "https://bitbucket.org",
+};
+
+function isGitSource(input: string): boolean {
+  return (
+    /^(github|gitlab|bitbucket):/.test(input) ||
+    input.startsWith("git+") ||
+    /^(git|ssh|https?|file):\/\//.test(input) ||
+    /^[\w.-]+@[\w.-]+:/.test(input) ||
+    /\.git(#|$)/.test(input)
+  );
+}
+
+function isTarballSource(input: string): boolean {
+  return /\.(tgz|tar\.gz)$/.test(input);
+}
+
+function isLocalSource(input: string): boolean {
+  return (
+    input.startsWith(".") ||
+    input.startsWith("/") ||
+    input.startsWith("~") ||
+    input.includes("/") ||
+    input.includes("\\")
+  );
+}
+
+function expandHome(input: string): string {
+  return input.startsWith("~")
+    ? join(process.env.HOME ?? "", input.slice(1))
+    : input;
+}
+
+/**
+ * Parse a git source of the form `<repo>#<ref>/<subdir>`
+ */
+function parseGitSource(input: string): TemplateSource {
+  const source = input.replace(/^git\+/, "");
+  const hashIndex = source.indexOf("#");
+  const repo = hashIndex === -1 ? source : source.slice(0, hashIndex);
+  const fragment = hashIndex === -1 ? undefined : source.slice(hashIndex + 1);
+
+  let url = repo;
+  const shorthand = repo.match(/^(github|gitlab|bitbucket):(.+)$/);
+  if (shorthand) {
+    const [, host, path] = shorthand;
+    url = `${GIT_HOST_SHORTHANDS[host]}/${path.replace(/\.git$/, "")}.git`;
+  }
+
+  if (!fragment) {
+    return { type: "git", url };
+  }
+
+  const [ref, ...subdirParts] = fragment.split("/");
+  return {
+    type: "git",
+    url,
+    ref: ref || undefined,
+    subdir: subdirParts.length > 0 ? subdirParts.join("/") : undefined,
+  };
+}
+
+/**
+ * Work out where a `--template` value points to
+ */
+export function parseTemplateSource(input: string): TemplateSource {
+  if (getTemplate(input)) {
+    return { type: "registry", name: input };
+  }
+
+  if (isGitSource(input)) {
+    return parseGitSource(input);
+  }
+
+  if (isTarballSource(input)) {
+    return { type: "tarball", path: resolve(expandHome(input)) };
+  }
+
+  if (isLocalSource(input) || existsSync(input)) {
+    return { type: "local", path: resolve(expandHome(input)) };
+  }
+
+  return { type: "registry", name: input };
+}
+
+/**
+ * Human-readable description of a template source
+ */
+export function describeTemplateSource(source: TemplateSource): string {
+  switch (source.type) {
+    case "registry":
+      return source.name;
+    case "local":
+      return `local directory ${source.path}`;
+    case "tarball":
+      return `tarball ${source.path}`;
+    case "git":
+      return `git ${source.url}${source.ref ? `#${source.ref}` : ""}${
+        source.subdir ? ` (${source.subdir})` : ""
+      }`;
+  }
+}
+
+/**
+ * Tarballs produced by `npm pack` wrap everything in a single directory
+ */
+async function unwrapSingleDirectory(dirPath: string): Promise<string> {
+  const entries = await readdir(dirPath);
+  if (entries.length === 1) {
+    const onlyEntry = join(dirPath, entries[0]);
+    if ((await stat(onlyEntry)).isDirectory()) {
+      return onlyEntry;
+    }
+  }
+  return dirPath;
+}
+
+async function cloneGitSource(
+  source: Extract<TemplateSource, { type: "git" }>,
+  targetPath: string,
+): Promise<void> {
+  if (!source.ref) {
+    await execa("git", ["clone", "--depth", "1", source.url, targetPath]);
+    return;
+  }
+
+  try {
+    // Fast path for branches and tags
+    await execa("git", [
+      "clone",
+      "--depth",
+      "1",
+      "--branch",
+      source.ref,
+      source.url,
+      targetPath,
+    ]);
+  } catch {
+    // Commit SHAs can't be shallow-cloned by name, so fall back to a full clone
+    await rm(targetPath, { recursive: true, force: true });
+    await execa("git", ["clone", source.url, targetPath]);
+    await execa("git", ["checkout", source.ref], { cwd: targetPath });
+  }
+}
+
+/**
+ * Make a template available on disk, downloading or extracting it when needed
+ */
+export async function fetchTemplate(input: string): Promise<FetchedTemplate> {
+  const source = parseTemplateSource(input);
+  const noCleanup = async () => {};
+
+  if (source.type === "registry") {
+    return {
+      path: resolveTemplatePath(source.name),
+      version: getCliVersion(),
+      cleanup: noCleanup,
+    };
+  }
+
+  if (source.type === "local") {
+    if (!existsSync(source.path)) {
+      throw new Error(`Template directory not found: ${source.path}`);
+    }
+    return { path: source.path, cleanup: noCleanup };
+  }
+
+  const tempDir = await mkdtemp(join(tmpdir(), "create-fastify-project-"));
+  // Also removed if the run is cancelled or exits before cleanup is called
+  const unregister = removeOnExit(tempDir);
+  const cleanup = async () => {
+    await rm(tempDir, { recursive: true, force: true });
+    unregister();
+  };
+
+  try {
+    if (source.type === "tarball") {
+      if (!existsSync(source.path)) {
+        throw new Error(`Template tarball not found: ${source.path}`);
+      }
+      await execa("tar", ["-xzf", source.path, "-C", tempDir]);
+      return { path: await unwrapSingleDirectory(tempDir), cleanup };
+    }
+
+    const clonePath = join(tempDir, "repo");
+    await cloneGitSource(source, clonePath);
+    const { stdout: commit } = await execa("git", ["rev-parse", "HEAD"], {
+      cwd: clonePath,
+    });
+    await rm(join(clonePath, ".git"), { recursive: true, force: true });
+
+    const templatePath = source.subdir
+      ? join(clonePath, source.subdir)
+      : clonePath;
+    if (!existsSync(templatePath)) {
+      throw new Error(
+        `Subdirectory "${source.subdir}" not found in ${source.url}`,
+      );
+    }
+    return { path: templatePath, version: commit.trim(), cleanup };
+  } catch (error) {
+    await cleanup();
+    throw error;
+  }
+}
+
+/**
+ * Download a bundled template as published with an earlier CLI version
+ */
+async function fetchPublishedTemplate(
+  name: string,
+  version: string,
+): Promise<FetchedTemplate> {
+  const template = getTemplate(name);
+  if (!template) {
+    throw new Error(`Unknown template "${name}"`);
+  }
+
+  const tempDir = await mkdtemp(join(tmpdir(), "create-fastify-project-"));
+  const unregister = removeOnExit(tempDir);
+  const cleanup = async () => {
+    await rm(tempDir, { recursive: true, force: true });
+    unregister();
+  };
+
+  try {
+    const { stdout } = await execa("npm", [
+      "pack",
+      `create-fastify-project@${version}`,
+      "--pack-destination",
+      tempDir,
+      "--silent",
+    ]);
+    await execa("tar", ["-xzf", join(tempDir, stdout.trim()), "-C", tempDir]);
+    const templatePath = join(tempDir, "package", template.path);
+    if (!existsSync(templatePath)) {
+      throw new Error(
+        `create-fastify-project@${version} does not include the ${name} template`,
+      );
+    }
+    return { path: templatePath, version, cleanup };
+  } catch (error) {
+    await cleanup();
+    throw error;
+  }
+}
+
+/**
+ * Fetch a template as it was at an earlier version, e.g. to compare a
+ * project with the files it was generated from
+ * Returns undefined for sources that aren't versioned, like local directories
+ */
+export async function fetchTemplateVersion(
+  input: string,
+  version: string,
+): Promise<FetchedTemplate | undefined> {
+  const source = parseTemplateSource(input);
+
+  if (source.type === "registry") {
+    return version === getCliVersion()
+      ? fetchTemplate(input)
+      : fetchPublishedTemplate(source.name, version);
+  }
+
+  if (source.type === "git") {
+    const subdir = source.subdir ? `/${source.subdir}` : "";
+    return fetchTemplate(`git+${source.url}#${version}${subdir}`);
+  }
+
+  return undefined;
+}
@@ -1,8 +1,15 @@
-import { existsSync } from "node:fs";
+import { existsSync, statSync } from "node:fs";
 import { resolve } from "node:path";
 import inquirer from "inquirer";
 import validateNpmPackageName from "validate-npm-package-name";
+import {
+  getTemplate,
+  getTemplateNames,
+  getUnsupportedOptions,
+} from "../template-registry";
 import type { ProjectOptions } from "../types";
+import { PACKAGE_MANAGERS } from "./package-manager";
+import { parseTemplateSource } from "./template-source";
 
 // Constants for validation limits
 const MAX_PATH_LENGTH = process.platform === "win32" ? 260 : 4096;
@@ -106,17 +113,29 @@ function validateProjectNameString(name: string): {
     };
   }
 
-  // Check if directory already exists
-  if (existsSync(proposedPath)) {
+  // Existing directories are generated into, other files are in the way
+  if (existsSync(proposedPath) && !statSync(proposedPath).isDirectory()) {
     return {
       isValid: false,
-      error: `Directory "${trimmedName}" already exists. Please choose a different name or remove the existing directory.`,
+      error: `"${trimmedName}" already exists and is not a directory. Please choose a different name.`,
     };
   }
 
   return { isValid: true, error: "" };
 }
 
+/**
+ * Whether a value is a TCP port a dev server can listen on
+ */
+export function isValidPort(port: unknown): port is number {
+  return (
+    typeof port === "number" &&
+    Number.isInteger(port) &&
+    port >= 1 &&
+    port <= 65535
+  );
+}
+
 export function validateProjectOptions(options: Partial<ProjectOptions>): void {
   const errors: string[] = [];
 
@@ -128,9 +147,16 @@ export function validateProjectOptions(options: Partial<ProjectOptions>): void {
   }
 
   // Validate ORM option
-  if (options.orm && !["prisma", "none"].includes(options.orm)) {
+  if (options.orm && !["prisma", "drizzle", "none"].includes(options.orm)) {
+    errors.push(
+      `Invalid ORM option: "${options.orm}". Must be one of: prisma, drizzle, none`,
+    );
+  }
+
+  // Validate database workflow option
+  if (options.dbWorkflow && !["push", "migrate"].includes(options.dbWorkflow)) {
     errors.push(
-      `Invalid ORM option: "${options.orm}". Must be one of: prisma, none`,
+      `Invalid database workflow option: "${options.dbWorkflow}". Must be one of: push, migrate`,
     );
   }
 
@@ -141,6 +167,13 @@ export function validateProjectOptions(options: Partial<ProjectOptions>): void {
     );
   }
 
+  // Validate package manager option
+  if (options.pm && !PACKAGE_MANAGERS.includes(options.pm)) {
+    errors.push(
+      `Invalid package manager option: "${options.pm}". Must be one of: ${PACKAGE_MANAGERS.join(", ")}`,
+    );
+  }
+
   // Validate boolean options
   if (options.install !== undefined && typeof options.install !== "boolean") {
     errors.push("Install option must be a boolean");
@@ -150,6 +183,59 @@ export function validateProjectOptions(options: Partial<ProjectOptions>): void {
     errors.push("Git option must be a boolean");
   }
 
+  if (options.openapi !== undefined && typeof options.openapi !== "boolean") {
+    errors.push("OpenAPI option must be a boolean");
+  }
+
+  if (options.seed !== undefined && typeof options.seed !== "boolean") {
+    errors.push("Seed option must be a boolean");
+  }
+
+  // Validate ports
+  if (options.apiPort !== undefined && !isValidPort(options.apiPort)) {
+    errors.push(
+      `Invalid API port: "${options.apiPort}". Must be a whole number between 1 and 65535`,
+    );
+  }
+
+  if (options.webPort !== undefined && !isValidPort(options.webPort)) {
+    errors.push(
+      `Invalid web port: "${options.webPort}". Must be a whole number between 1 and 65535`,
+    );
+  }
+
+  if (options.apiPort !== undefined && options.apiPort === options.webPort) {
+    errors.push(
+      `The API and web app can't both listen on port ${options.apiPort}`,
+    );
+  }
+
+  // Validate template and the option combinations it supports
+  const templateSource = options.template
+    ? parseTemplateSource(options.template)
+    : undefined;
+  if (
+    templateSource &&
+    (templateSource.type === "local" || templateSource.type === "tarball")
+  ) {
+    if (!existsSync(templateSource.path)) {
+      errors.push(`Template path does not exist: ${templateSource.path}`);
+    }
+  } else if (options.template && templateSource?.type === "registry") {
+    const template = getTemplate(options.template);
+    if (!template) {
+      errors.push(
+        `Invalid template option: "${options.template}". Must be one of: ${getTemplateNames().join(", ")}, a local path, a .tgz file or a git URL`,
+      );
+    } else {
+      for (const option of getUnsupportedOptions(template.supports, options)) {
+        errors.push(
+          `The "${template.name}" template does not support ${option}`,
+        );
+      }
+    }
+  }
+
   // Throw all errors at once for better UX
   if (errors.length > 0) {
     throw new Error(
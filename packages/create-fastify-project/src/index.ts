@@ -1,18 +1,38 @@
 #!/usr/bin/env node
 
-import { readFileSync } from "node:fs";
-import { dirname, resolve } from "node:path";
-import { fileURLToPath } from "node:url";
-import { Command, Option } from "commander";
+import { basename } from "node:path";
+import { Command, InvalidArgumentError, Option } from "commander";
+import { registerAddCommand } from "./commands/add";
+import { registerDoctorCommand } from "./commands/doctor";
+import { registerGenerateCommand } from "./commands/generate";
+import { registerRemoveCommand } from "./commands/remove";
+import { registerUpgradeCommand } from "./commands/upgrade";
 import { createProject } from "./create-project";
+import { resolveOptions } from "./helpers/config";
 import { logger } from "./helpers/logger";
+import { PACKAGE_MANAGERS } from "./helpers/package-manager";
 import { runInteractiveMode } from "./helpers/prompts";
-import { validateProjectName } from "./helpers/validation";
+import { report } from "./helpers/report";
+import { isValidPort, validateProjectName } from "./helpers/validation";
+import {
+  DEFAULT_TEMPLATE,
+  getCliVersion,
+  getTemplateNames,
+} from "./template-registry";
+import type { ProjectOptions, RunOptions } from "./types";
 
-const __dirname = dirname(fileURLToPath(import.meta.url));
-const packageJson = JSON.parse(
-  readFileSync(resolve(__dirname, "../package.json"), "utf-8"),
-);
+/**
+ * Parse a port flag, rejecting anything a server can't listen on
+ */
+function parsePort(value: string): number {
+  const port = Number(value);
+  if (!isValidPort(port)) {
+    throw new InvalidArgumentError(
+      "Must be a whole number between 1 and 65535",
+    );
+  }
+  return port;
+}
 
 // Create the main program
 const program = new Command();
@@ -21,16 +41,27 @@ const program = new Command();
 program
   .name("create-fastify-project")
   .description("Create a new Fastify + React Router 7 monorepo project")
-  .version(packageJson.version, "-v, --version", "Display version number")
+  .version(getCliVersion(), "-v, --version", "Display version number")
   .helpOption("-h, --help", "Display help for command")
-  .argument("[project-name]", "Name of the project to create")
+  // Subcommands like `add` have options of the same name
+  .enablePositionalOptions()
+  .argument(
+    "[project-name]",
+    "Name of the project to create, or . for the current directory",
+  )
   .addOption(
     new Option("--no-install", "Skip dependency installation").default(true),
   )
   .addOption(new Option("--no-git", "Skip git initialization").default(true))
+  .addOption(
+    new Option(
+      "--template <name>",
+      `Template to use: ${getTemplateNames().join(", ")}, a local path, a .tgz file or a git URL (github:org/repo#ref/subdir)`,
+    ).default(DEFAULT_TEMPLATE),
+  )
   .addOption(
     new Option("--orm <orm>", "ORM to use")
-      .choices(["prisma", "none"])
+      .choices(["prisma", "drizzle", "none"])
       .default("prisma"),
   )
   .addOption(
@@ -38,14 +69,109 @@ program
       .choices(["sqlite", "postgres", "mysql"])
       .default("sqlite"),
   )
+  .addOption(
+    new Option(
+      "--db-workflow <workflow>",
+      "Apply schema changes by pushing the schema or with migrations",
+    )
+      .choices(["push", "migrate"])
+      .default("push"),
+  )
+  .addOption(
+    new Option(
+      "--no-seed",
+      "Skip loading sample data into the SQLite database",
+    ).default(true),
+  )
   .addOption(
     new Option("--lint <linter>", "Linter to use")
       .choices(["biome", "eslint"])
       .default("biome"),
   )
-  .action(async (projectName, options) => {
+  .addOption(
+    new Option(
+      "--no-openapi",
+      "Skip OpenAPI spec generation and Swagger UI in the API",
+    ).default(true),
+  )
+  .addOption(
+    new Option("--api-port <port>", "Port the API listens on")
+      .argParser(parsePort)
+      .default(3000),
+  )
+  .addOption(
+    new Option("--web-port <port>", "Port the web app listens on")
+      .argParser(parsePort)
+      .default(5173),
+  )
+  .addOption(
+    new Option(
+      "--pm <manager>",
+      "Package manager to use (default: the one running this CLI, or pnpm)",
+    ).choices(PACKAGE_MANAGERS),
+  )
+  .addOption(
+    new Option(
+      "--force",
+      "Overwrite existing files in the target directory",
+    ).conflicts("skipExisting"),
+  )
+  .option(
+    "--skip-existing",
+    "Keep existing files in the target directory instead of overwriting them",
+  )
+  .option(
+    "--preset <name>",
+    "Apply a preset from your user config or .create-fastify-projectrc",
+  )
+  .option("-y, --yes", "Accept defaults and never prompt, for CI")
+  .option(
+    "--json",
+    "Print a JSON report of the run instead of progress output (implies --yes)",
+  )
+  .option(
+    "--dry-run",
+    "Print the files and commands a run would produce without writing anything",
+  )
+  .action(async (projectName, options, command: Command) => {
+    const {
+      dryRun,
+      force,
+      skipExisting,
+      yes,
+      json,
+      preset,
+      ...projectOptions
+    } = options;
+    // Only explicit flags override presets and config files, not commander defaults
+    const flags: Partial<ProjectOptions> = Object.fromEntries(
+      Object.entries(projectOptions).filter(
+        ([key]) => command.getOptionValueSource(key) === "cli",
+      ),
+    );
+    const runOptions: RunOptions = {
+      dryRun,
+      onConflict: force ? "overwrite" : skipExisting ? "skip" : "prompt",
+      // Prompts would end up in the JSON output
+      yes: yes || json,
+      json,
+    };
+
+    if (json) {
+      logger.setSilent(true);
+      report.enable();
+      // Anything printed outside the logger goes to stderr, keeping stdout parseable
+      console.log = console.error;
+    }
+
     try {
+      const resolved = resolveOptions(flags, preset);
+
       // Check if we should run in interactive mode
+      if (!projectName && runOptions.yes) {
+        throw new Error("A project name is required with --yes");
+      }
+
       if (!projectName) {
         // Full interactive mode - prompt for project name and all options
         logger.title("🚀 Create Fastify Project");
@@ -54,36 +180,71 @@ program
         );
         logger.break();
 
-        const interactiveResult = await runInteractiveMode();
+        const interactiveResult = await runInteractiveMode(
+          flags,
+          resolved.options,
+        );
 
         // Create the project with interactive results
-        await createProject(interactiveResult.projectName, {
-          db: interactiveResult.db,
-          orm: interactiveResult.orm,
-          lint: interactiveResult.lint,
-          git: interactiveResult.git,
-          install: interactiveResult.install,
-        });
+        await createProject(
+          interactiveResult.projectName,
+          {
+            template: interactiveResult.template,
+            db: interactiveResult.db,
+            orm: interactiveResult.orm,
+            dbWorkflow: interactiveResult.dbWorkflow,
+            seed: interactiveResult.seed,
+            lint: interactiveResult.lint,
+            openapi: interactiveResult.openapi,
+            apiPort: interactiveResult.apiPort,
+            webPort: interactiveResult.webPort,
+            git: interactiveResult.git,
+            install: interactiveResult.install,
+            pm: interactiveResult.pm,
+          },
+          {
+            ...runOptions,
+            sources: Object.fromEntries(
+              Object.keys(resolved.sources).map((key) => [
+                key,
+                key in flags ? "flag" : "prompt",
+              ]),
+            ),
+          },
+        );
       } else {
-        // Traditional CLI mode with optional interactive prompts for missing options
+        // CLI mode - options come from flags, presets and defaults
         logger.title("🚀 Create Fastify Project");
         logger.dim(
           "A modern monorepo template with Fastify API + React Router 7 frontend",
         );
         logger.break();
 
+        // `.` generates into the current directory, named after it
+        if (projectName === ".") {
+          runOptions.directory = ".";
+        }
+
         // Validate project name
-        const validatedName = await validateProjectName(projectName);
+        const validatedName = await validateProjectName(
+          projectName === "." ? basename(process.cwd()) : projectName,
+        );
 
-        // Create the project (will prompt for missing options interactively)
-        await createProject(validatedName, options);
+        // Create the project from the resolved options. Only template prompts
+        // and file conflicts are still asked about; with --yes prompts take
+        // their defaults and conflicts fail unless --force or --skip-existing
+        await createProject(validatedName, resolved.options, {
+          ...runOptions,
+          sources: resolved.sources,
+        });
       }
 
       // Success/error messaging is now handled in createProject
     } catch (error) {
-      logger.error(
-        error instanceof Error ? error.message : "Unknown error occurred",
-      );
+      const message =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      report.addError(message);
+      logger.error(message);
       process.exit(1);
     }
   });
@@ -104,7 +265,8 @@ program.exitOverride((err) => {
     process.exit(1);
   } else if (
     err.code === "commander.invalidOption" ||
-    err.code === "commander.unknownOption"
+    err.code === "commander.unknownOption" ||
+    err.code === "commander.conflictingOption"
   ) {
     logger.error(`Invalid option: ${err.message}`);
     logger.dim(
@@ -126,5 +288,12 @@ program.configureOutput({
   },
 });
 
+// Subcommands inherit the error handling configured above
+registerAddCommand(program);
+registerRemoveCommand(program);
+registerUpgradeCommand(program);
+registerDoctorCommand(program);
+registerGenerateCommand(program);
+
 // Parse arguments
 program.parse();
@@ -0,0 +1,109 @@
+import { readFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { ProjectOptions } from "./types";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+/** Option values a template has variants for */
+export interface TemplateSupport {
+  orm: ProjectOptions["orm"][];
+  db: ProjectOptions["db"][];
+  lint: ProjectOptions["lint"][];
+}
+
+export interface TemplateDefinition {
+  name: string;
+  title: string;
+  description: string;
+  /** Template directory, relative to the CLI package root */
+  path: string;
+  supports: TemplateSupport;
+}
+
+export const DEFAULT_TEMPLATE = "react-router";
+
+/**
+ * Registry of bundled templates
+ * New frontends (Next.js, SolidJS, Svelte, Vue) plug in here
+ */
+export const TEMPLATES: TemplateDefinition[] = [
+  {
+    name: "react-router",
+    title: "React Router 7",
+    description: "Server-rendered React with loaders, actions and Tailwind CSS",
+    path: "template",
+    supports: {
+      orm: ["prisma", "drizzle", "none"],
+      db: ["sqlite", "postgres", "mysql"],
+      lint: ["biome", "eslint"],
+    },
+  },
+];
+
+/**
+ * Version of the CLI, which is also the version of its bundled templates
+ */
+export function getCliVersion(): string {
+  return JSON.parse(
+    readFileSync(resolve(__dirname, "..", "package.json"), "utf-8"),
+  ).version;
+}
+
+export function getTemplate(name: string): TemplateDefinition | undefined {
+  return TEMPLATES.find((template) => template.name === name);
+}
+
+export function getTemplateNames(): string[] {
+  return TEMPLATES.map((template) => template.name);
+}
+
+/**
+ * Resolve the absolute path of a registered template
+ */
+export function resolveTemplatePath(name: string): string {
+  const template = getTemplate(name);
+  if (!template) {
+    throw new Error(
+      `Unknown template "${name}". Available templates: ${getTemplateNames().join(", ")}`,
+    );
+  }
+  return resolve(__dirname, "..", template.path);
+}
+
+/**
+ * Resolve the absolute path of a bundled code generator, e.g. `resource`
+ */
+export function resolveGeneratorPath(name: string): string {
+  return resolve(__dirname, "..", "generators", name);
+}
+
+/**
+ * List the option values a template has no variant for
+ */
+export function getUnsupportedOptions(
+  supports: Partial<TemplateSupport>,
+  options: Partial<ProjectOptions>,
+): string[] {
+  const unsupported: string[] = [];
+
+  if (options.orm && supports.orm && !supports.orm.includes(options.orm)) {
+    unsupported.push(`--orm ${options.orm}`);
+  }
+
+  // The database choice only matters when an ORM is generated
+  if (
+    options.db &&
+    options.orm !== "none" &&
+    supports.db &&
+    !supports.db.includes(options.db)
+  ) {
+    unsupported.push(`--db ${options.db}`);
+  }
+
+  if (options.lint && supports.lint && !supports.lint.includes(options.lint)) {
+    unsupported.push(`--lint ${options.lint}`);
+  }
+
+  return unsupported;
+}
@@ -1,7 +1,49 @@
+import type { PackageManager } from "./helpers/package-manager";
+
 export interface ProjectOptions {
+  template: string;
   install: boolean;
   git: boolean;
-  orm: "prisma" | "none";
+  orm: "prisma" | "drizzle" | "none";
   db: "sqlite" | "postgres" | "mysql";
+  /** How schema changes reach the database: pushing the schema or migrations */
+  dbWorkflow: "push" | "migrate";
+  /** Load the sample data once the SQLite database is set up */
+  seed: boolean;
   lint: "biome" | "eslint";
+  /** OpenAPI spec generation and Swagger UI in the API */
+  openapi: boolean;
+  /** Ports the API and web dev servers listen on */
+  apiPort: number;
+  webPort: number;
+  pm: PackageManager;
+}
+
+/** Where an option value came from, shown in the project summary */
+export type OptionSource =
+  | "flag"
+  | `preset ${string}`
+  | "project config"
+  | "user config"
+  | "default"
+  | "detected"
+  | "prompt";
+
+export type OptionSources = Record<keyof ProjectOptions, OptionSource>;
+
+/** What to do with existing files the template would overwrite */
+export type ConflictPolicy = "prompt" | "overwrite" | "skip";
+
+export interface RunOptions {
+  /** Compute the file plan and print it instead of writing anything */
+  dryRun?: boolean;
+  /** Target directory when it differs from the project name, e.g. `.` */
+  directory?: string;
+  onConflict?: ConflictPolicy;
+  /** Accept defaults and fail instead of prompting */
+  yes?: boolean;
+  /** Print a JSON report instead of progress output */
+  json?: boolean;
+  /** Where each option came from, for the summary */
+  sources?: Partial<OptionSources>;
 }
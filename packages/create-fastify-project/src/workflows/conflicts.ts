@@ -0,0 +1,95 @@
+import { existsSync, readFileSync, readdirSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { formatDiff } from "../helpers/diff";
+import type { FilePlan } from "../helpers/file-plan";
+import { logger } from "../helpers/logger";
+import { promptForConflict } from "../helpers/prompts";
+import type { ConflictPolicy } from "../types";
+
+/** Entries that still count as an empty directory, e.g. a fresh clone */
+const IGNORED_EXISTING_ENTRIES = [".git", "README.md", "LICENSE"];
+
+/**
+ * Entries in an existing target directory, ignoring those of a fresh clone
+ */
+export function getExistingEntries(projectPath: string): string[] {
+  return readdirSync(projectPath).filter(
+    (entry) => !IGNORED_EXISTING_ENTRIES.includes(entry),
+  );
+}
+
+/**
+ * Planned files that already exist in the target directory with other content
+ */
+export function findConflicts(plan: FilePlan, projectPath: string): string[] {
+  if (!existsSync(projectPath)) {
+    return [];
+  }
+
+  return plan.paths().filter((path) => {
+    const targetPath = join(projectPath, path);
+    if (!existsSync(targetPath)) {
+      return false;
+    }
+    if (!statSync(targetPath).isFile()) {
+      return true;
+    }
+    return !readFileSync(targetPath).equals(
+      plan.get(path)?.content ?? Buffer.alloc(0),
+    );
+  });
+}
+
+/**
+ * Decide per conflict whether the planned file replaces the existing one
+ * Skipped files are dropped from the plan
+ */
+export async function resolveConflicts(
+  plan: FilePlan,
+  projectPath: string,
+  conflicts: string[],
+  policy: ConflictPolicy,
+  interactive: boolean,
+): Promise<void> {
+  if (conflicts.length === 0) {
+    return;
+  }
+
+  if (policy === "prompt" && !interactive) {
+    throw new Error(
+      `${conflicts.length} ${conflicts.length === 1 ? "file already exists" : "files already exist"} in ${projectPath} (${conflicts.join(", ")}). Use --force to overwrite or --skip-existing to keep them`,
+    );
+  }
+
+  for (const path of conflicts) {
+    let action = policy === "prompt" ? undefined : policy;
+
+    while (!action) {
+      const answer = await promptForConflict(path);
+      if (answer !== "diff") {
+        action = answer;
+        continue;
+      }
+
+      const targetPath = join(projectPath, path);
+      if (statSync(targetPath).isFile()) {
+        console.log(
+          formatDiff(readFileSync(targetPath, "utf-8"), plan.read(path)),
+        );
+      } else {
+        logger.warn(`${path} is a directory in ${projectPath}`);
+      }
+    }
+
+    if (action === "skip") {
+      plan.delete(path, "kept existing file");
+    }
+  }
+
+  const overwritten = conflicts.filter((path) => plan.has(path)).length;
+  if (overwritten > 0) {
+    logger.info(
+      `Overwriting ${overwritten} existing file${overwritten === 1 ? "" : "s"}`,
+    );
+  }
+}
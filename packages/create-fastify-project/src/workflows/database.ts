@@ -1,13 +1,177 @@
-import { resolve } from "node:path";
+import { existsSync } from "node:fs";
+import { join } from "node:path";
 import chalk from "chalk";
-import { type ExecaError, execa } from "execa";
+import type { ExecaError } from "execa";
 import type { Ora } from "ora";
+import { findMissingEnvKeys } from "../helpers/env";
 import {
   EnhancedError,
   handlePackageManagerError,
 } from "../helpers/error-handling";
+import {
+  type PlannedCommand,
+  formatCommand,
+  runCommand,
+} from "../helpers/file-plan";
+import {
+  execCommand,
+  formatRunScript,
+  runScriptCommand,
+} from "../helpers/package-manager";
 import type { ProjectOptions } from "../types";
 
+/** Display names for the ORM choices */
+export const ORM_NAMES: Record<ProjectOptions["orm"], string> = {
+  prisma: "Prisma",
+  drizzle: "Drizzle",
+  none: "None",
+};
+
+/** How each ORM's setup is described when it fails */
+const ORM_SETUP: Record<
+  Exclude<ProjectOptions["orm"], "none">,
+  { command: string; helpUrl: string; seedHelpUrl: string }
+> = {
+  prisma: {
+    command: "prisma generate/migrate",
+    helpUrl:
+      "https://www.prisma.io/docs/getting-started/setup-prisma/start-from-scratch",
+    seedHelpUrl:
+      "https://www.prisma.io/docs/orm/prisma-migrate/workflows/seeding",
+  },
+  drizzle: {
+    command: "drizzle-kit generate/push",
+    helpUrl: "https://orm.drizzle.team/docs/get-started",
+    seedHelpUrl: "https://orm.drizzle.team/docs/seed-overview",
+  },
+};
+
+/** Setup details for the project's ORM */
+const getOrmSetup = (options: ProjectOptions) =>
+  ORM_SETUP[options.orm === "drizzle" ? "drizzle" : "prisma"];
+
+/** The first migration of the migrate workflow, in packages/database */
+export const INITIAL_MIGRATION_PATH = "prisma/migrations/0_init/migration.sql";
+
+/**
+ * Write the initial migration from the schema, without a database
+ */
+export function getInitialMigrationCommand(
+  options: ProjectOptions,
+): PlannedCommand {
+  if (options.orm === "drizzle") {
+    // Written to drizzle/0000_init.sql with a snapshot in drizzle/meta
+    return execCommand(
+      options.pm,
+      "drizzle-kit",
+      ["generate", "--name", "init"],
+      "packages/database",
+    );
+  }
+
+  return execCommand(
+    options.pm,
+    "prisma",
+    [
+      "migrate",
+      "diff",
+      "--from-empty",
+      "--to-schema-datamodel",
+      "prisma/schema.prisma",
+      "--script",
+      "--output",
+      INITIAL_MIGRATION_PATH,
+    ],
+    "packages/database",
+  );
+}
+
+/**
+ * The script that brings the database in line with the schema
+ */
+export function getApplySchemaScript(options: ProjectOptions): string {
+  return options.dbWorkflow === "migrate" ? "db:migrate:deploy" : "db:push";
+}
+
+/** Whether the project already has a .env, which is never overwritten */
+const hasEnvFile = (projectPath: string) =>
+  existsSync(join(projectPath, ".env"));
+
+/**
+ * Commands run to set up the database for the chosen options
+ * The schema is only applied for SQLite, external databases need a server first
+ */
+export function getDatabaseCommands(
+  options: ProjectOptions,
+  projectPath: string,
+): PlannedCommand[] {
+  if (options.orm === "none") {
+    return [];
+  }
+
+  const commands: PlannedCommand[] = [];
+
+  // Copy the environment example to .env in the project root, where the
+  // database package's scripts read it from
+  if (!hasEnvFile(projectPath)) {
+    commands.push({ command: "cp", args: [".env.example", ".env"] });
+  }
+
+  // Drizzle has no client to generate
+  if (options.orm === "prisma") {
+    commands.push(
+      runScriptCommand(options.pm, "db:generate", "packages/database"),
+    );
+  }
+
+  if (options.dbWorkflow === "migrate") {
+    commands.push(getInitialMigrationCommand(options));
+  }
+
+  if (options.db === "sqlite") {
+    commands.push(
+      runScriptCommand(
+        options.pm,
+        getApplySchemaScript(options),
+        "packages/database",
+      ),
+    );
+  }
+
+  return commands;
+}
+
+/**
+ * Commands that load the sample data, once the database is set up
+ * External databases need a server first, so only SQLite is seeded right away
+ */
+export function getSeedCommands(options: ProjectOptions): PlannedCommand[] {
+  if (options.orm === "none" || options.db !== "sqlite" || !options.seed) {
+    return [];
+  }
+
+  return [runScriptCommand(options.pm, "db:seed", "packages/database")];
+}
+
+/**
+ * Point out variables an existing .env is missing, since it was kept as is
+ */
+function reportMissingEnvKeys(projectPath: string): void {
+  const missing = hasEnvFile(projectPath)
+    ? findMissingEnvKeys(projectPath)
+    : [];
+  if (missing.length === 0) {
+    return;
+  }
+
+  console.log(
+    chalk.yellow("📝 Keeping your .env, add these keys from .env.example:"),
+  );
+  for (const key of missing) {
+    console.log(chalk.cyan(`   ${key}`));
+  }
+}
+
 /**
  * Handle database setup with enhanced error handling
  */
@@ -15,65 +179,109 @@ export async function setupDatabase(
   projectPath: string,
   spinner: Ora,
   options: ProjectOptions,
-): Promise<void> {
+): Promise<boolean> {
+  reportMissingEnvKeys(projectPath);
   spinner.start("Setting up database...");
   try {
-    // Copy .env file from database package to project root
-    await execa("cp", ["packages/database/.env.example", ".env"], {
-      cwd: projectPath,
-    });
-
-    // Generate Prisma client (run from database package directory)
-    await execa("pnpm", ["prisma", "generate"], {
-      cwd: resolve(projectPath, "packages/database"),
-    });
-
-    // Push database schema (run from database package directory)
-    await execa("pnpm", ["prisma", "db", "push"], {
-      cwd: resolve(projectPath, "packages/database"),
-    });
+    for (const command of getDatabaseCommands(options, projectPath)) {
+      await runCommand(command, projectPath);
+    }
 
     spinner.succeed("Set up database");
+    return true;
   } catch (error) {
     spinner.fail("Failed to set up database");
 
     // Determine the specific type of error
     const errorMessage = (error as Error).message?.toLowerCase() || "";
+    const setup = getOrmSetup(options);
     let enhancedError: EnhancedError;
 
-    if (errorMessage.includes("prisma") || errorMessage.includes("not found")) {
+    if (
+      errorMessage.includes(options.orm) ||
+      errorMessage.includes("not found")
+    ) {
       enhancedError = new EnhancedError(
-        "Prisma setup failed",
+        `${ORM_NAMES[options.orm]} setup failed`,
         {
           operation: "Database setup",
           projectPath,
-          command: "prisma generate/db push",
+          command: setup.command,
           details: (error as Error).message,
         },
         {
-          message: "Prisma database setup encountered issues",
+          message: `${ORM_NAMES[options.orm]} database setup encountered issues`,
           steps: [
             "The project was created successfully but database setup failed",
             "You can set it up manually with the following commands:",
-            "cd packages/database",
-            "cp .env.example .env",
-            "pnpm prisma generate",
-            "pnpm prisma db push",
+            ...(hasEnvFile(projectPath) ? [] : ["cp .env.example .env"]),
+            ...(options.orm === "prisma"
+              ? [formatRunScript(options.pm, "db:generate")]
+              : []),
+            ...(options.dbWorkflow === "migrate"
+              ? [formatCommand(getInitialMigrationCommand(options))]
+              : []),
+            formatRunScript(options.pm, getApplySchemaScript(options)),
           ],
-          helpUrl:
-            "https://www.prisma.io/docs/getting-started/setup-prisma/start-from-scratch",
+          helpUrl: setup.helpUrl,
         },
         error as Error,
       );
     } else {
-      enhancedError = handlePackageManagerError(error as ExecaError, {
-        operation: "Database setup",
-        projectPath,
-        command: "prisma commands",
-      });
+      enhancedError = handlePackageManagerError(
+        error as ExecaError,
+        {
+          operation: "Database setup",
+          projectPath,
+          command: `${options.orm} commands`,
+        },
+        options.pm,
+      );
     }
 
     enhancedError.display();
+    return false;
+  }
+}
+
+/**
+ * Load the sample data into the database set up by setupDatabase
+ */
+export async function seedDatabase(
+  projectPath: string,
+  spinner: Ora,
+  options: ProjectOptions,
+): Promise<boolean> {
+  spinner.start("Seeding sample data...");
+  try {
+    for (const command of getSeedCommands(options)) {
+      await runCommand(command, projectPath);
+    }
+
+    spinner.succeed("Seeded sample data");
+    return true;
+  } catch (error) {
+    spinner.fail("Failed to seed sample data");
+
+    new EnhancedError(
+      "Seeding failed",
+      {
+        operation: "Database seeding",
+        projectPath,
+        command: formatRunScript(options.pm, "db:seed"),
+        details: (error as Error).message,
+      },
+      {
+        message: "The database is set up but the sample data wasn't loaded",
+        steps: [
+          "Check packages/database/src/seed.ts against the schema",
+          `Then run: ${formatRunScript(options.pm, "db:seed")}`,
+        ],
+        helpUrl: getOrmSetup(options).seedHelpUrl,
+      },
+      error as Error,
+    ).display();
+    return false;
   }
 }
 
@@ -84,18 +292,13 @@ export async function setupExternalDatabase(
   projectPath: string,
   spinner: Ora,
   options: ProjectOptions,
-): Promise<void> {
+): Promise<boolean> {
+  reportMissingEnvKeys(projectPath);
   spinner.start("Setting up database configuration...");
   try {
-    // Copy .env file from database package to project root
-    await execa("cp", ["packages/database/.env.example", ".env"], {
-      cwd: projectPath,
-    });
-
-    // Generate Prisma client (run from database package directory)
-    await execa("pnpm", ["prisma", "generate"], {
-      cwd: resolve(projectPath, "packages/database"),
-    });
+    for (const command of getDatabaseCommands(options, projectPath)) {
+      await runCommand(command, projectPath);
+    }
 
     spinner.succeed("Set up database configuration");
 
@@ -110,9 +313,12 @@ export async function setupExternalDatabase(
       ),
     );
     console.log(
-      chalk.cyan("   3. Run: cd packages/database && pnpm prisma db push"),
+      chalk.cyan(
+        `   3. Run: ${formatRunScript(options.pm, getApplySchemaScript(options))}`,
+      ),
     );
     console.log(chalk.dim("   💡 See README.md for database setup examples"));
+    return true;
   } catch (error) {
     spinner.fail("Failed to set up database configuration");
     console.log(
@@ -121,7 +327,19 @@ export async function setupExternalDatabase(
       ),
     );
     console.log(chalk.yellow("\n🔧 Manual setup required:"));
-    console.log(chalk.cyan("   cp .env.example .env  # From project root"));
-    console.log(chalk.cyan("   cd packages/database && pnpm prisma generate"));
+    if (!hasEnvFile(projectPath)) {
+      console.log(chalk.cyan("   cp .env.example .env  # From project root"));
+    }
+    if (options.orm === "prisma") {
+      console.log(
+        chalk.cyan(`   ${formatRunScript(options.pm, "db:generate")}`),
+      );
+    }
+    if (options.dbWorkflow === "migrate") {
+      console.log(
+        chalk.cyan(`   ${formatCommand(getInitialMigrationCommand(options))}`),
+      );
+    }
+    return false;
   }
 }
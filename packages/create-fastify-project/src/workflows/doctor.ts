@@ -0,0 +1,574 @@
+import {
+  copyFileSync,
+  existsSync,
+  readFileSync,
+  readdirSync,
+  realpathSync,
+} from "node:fs";
+import { basename, dirname, join } from "node:path";
+import chalk from "chalk";
+import {
+  type RecoveryInstructions,
+  checkFileSystemHealth,
+} from "../helpers/error-handling";
+import { formatCommand, runCommand } from "../helpers/file-plan";
+import { LOCKFILE_NAME } from "../helpers/lockfile";
+import { logger } from "../helpers/logger";
+import { parsePackageJson } from "../helpers/package-json";
+import {
+  PACKAGE_MANAGERS,
+  execCommand,
+  getPackageManager,
+  installCommand,
+} from "../helpers/package-manager";
+import { type DetectedProject, detectProject } from "../helpers/project";
+import type { ProjectOptions } from "../types";
+import { getInitialMigrationCommand } from "./database";
+import { installDependencies } from "./install";
+import { validateProject } from "./validation";
+
+export type CheckStatus = "pass" | "warn" | "fail";
+
+export interface CheckResult {
+  status: CheckStatus;
+  message: string;
+  /** How to fix a warning or failure by hand */
+  recovery?: RecoveryInstructions;
+  /** Fixes the problem automatically, resolving to whether it worked */
+  fix?: () => Promise<boolean>;
+}
+
+interface DoctorCheck {
+  name: string;
+  /** Checks that don't apply to the project are skipped */
+  applies?: (project: DetectedProject) => boolean;
+  run: (projectPath: string, project: DetectedProject) => Promise<CheckResult>;
+}
+
+/** Older projects kept the example in packages/database */
+const ENV_EXAMPLE_PATHS = [".env.example", "packages/database/.env.example"];
+const SCHEMA_PATH = "packages/database/prisma/schema.prisma";
+const MIGRATIONS_PATH = "packages/database/prisma/migrations";
+
+/** URL schemes each database accepts, under its Prisma provider and Drizzle dialect name */
+const DATABASE_URL_SCHEMES: Record<
+  ProjectOptions["db"],
+  { name: string; schemes: string[] }
+> = {
+  sqlite: { name: "sqlite", schemes: ["file:"] },
+  postgres: { name: "postgresql", schemes: ["postgresql://", "postgres://"] },
+  mysql: { name: "mysql", schemes: ["mysql://"] },
+};
+
+/** Where each ORM declares the database it connects to */
+const DATABASE_CONFIGS: Record<
+  Exclude<ProjectOptions["orm"], "none">,
+  { path: string; setting: string; helpUrl: string }
+> = {
+  prisma: {
+    path: SCHEMA_PATH,
+    setting: "provider",
+    helpUrl: "https://www.prisma.io/docs/orm/reference/connection-urls",
+  },
+  drizzle: {
+    path: "packages/database/drizzle.config.ts",
+    setting: "dialect",
+    helpUrl: "https://orm.drizzle.team/docs/get-started",
+  },
+};
+
+const usesPrisma = (project: DetectedProject) =>
+  project.options.orm === "prisma";
+
+const usesDatabase = (project: DetectedProject) =>
+  project.options.orm !== "none";
+
+/**
+ * Read a variable from a .env file, without expanding references
+ */
+function readEnvValue(envPath: string, key: string): string | undefined {
+  for (const line of readFileSync(envPath, "utf-8").split("\n")) {
+    const match = line.match(/^\s*(?:export\s+)?([\w.]+)\s*=\s*(.*?)\s*$/);
+    if (match?.[1] === key) {
+      return match[2].replace(/^(['"])(.*)\1$/, "$2");
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The project's environment example, wherever its template version put it
+ */
+function findEnvExample(projectPath: string): string {
+  return (
+    ENV_EXAMPLE_PATHS.find((path) => existsSync(join(projectPath, path))) ??
+    ENV_EXAMPLE_PATHS[0]
+  );
+}
+
+/**
+ * Workspace package directories, e.g. `apps/api`
+ */
+function listWorkspacePackages(projectPath: string): string[] {
+  const packages: string[] = [];
+  for (const directory of ["apps", "packages"]) {
+    const directoryPath = join(projectPath, directory);
+    if (!existsSync(directoryPath)) {
+      continue;
+    }
+    for (const entry of readdirSync(directoryPath)) {
+      if (existsSync(join(directoryPath, entry, "package.json"))) {
+        packages.push(`${directory}/${entry}`);
+      }
+    }
+  }
+  return packages;
+}
+
+/**
+ * Where the generated Prisma client keeps its copy of the schema
+ * The client sits next to the installed @prisma/client package
+ */
+function findGeneratedSchema(projectPath: string): string | undefined {
+  for (const nodeModules of [
+    "packages/database/node_modules",
+    "node_modules",
+  ]) {
+    const clientPath = join(projectPath, nodeModules, "@prisma/client");
+    if (existsSync(clientPath)) {
+      return join(
+        dirname(dirname(realpathSync(clientPath))),
+        ".prisma/client/schema.prisma",
+      );
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Catalogue of checks, run in order so earlier fixes (installing, creating
+ * .env) are in place before later checks depend on them
+ */
+const CHECKS: DoctorCheck[] = [
+  {
+    name: "Project files",
+    run: async (projectPath, project) => {
+      const hasErrors = await validateProject(projectPath, project.options);
+      return hasErrors
+        ? {
+            status: "fail",
+            message: "Essential project files are missing",
+            recovery: {
+              message: "Restore the missing files",
+              steps: [
+                "Restore them from version control, e.g. git checkout -- <file>",
+                "Or merge them back from the template with: create-fastify-project upgrade",
+              ],
+            },
+          }
+        : { status: "pass", message: "Essential project files are present" };
+    },
+  },
+  {
+    name: "File system",
+    run: async (projectPath) => {
+      const { canWrite, issues } = await checkFileSystemHealth(projectPath);
+      if (canWrite && issues.length === 0) {
+        return { status: "pass", message: "Project directory is writable" };
+      }
+      return {
+        status: canWrite ? "warn" : "fail",
+        message: issues.join("; "),
+        recovery: {
+          message: "File system issues detected",
+          steps: [
+            "Check permissions on the project directory with: ls -la",
+            "Ensure sufficient disk space is available",
+          ],
+        },
+      };
+    },
+  },
+  {
+    name: "Package manager lockfile",
+    run: async (projectPath, project) => {
+      const { pm } = project.options;
+      const others = PACKAGE_MANAGERS.filter(
+        (name) =>
+          name !== pm &&
+          existsSync(join(projectPath, getPackageManager(name).lockfile)),
+      ).map((name) => getPackageManager(name).lockfile);
+      if (others.length > 0) {
+        return {
+          status: "warn",
+          message: `${others.join(", ")} found in a ${pm} project`,
+          recovery: {
+            message: "Lockfiles of several package managers disagree",
+            steps: [
+              `Delete ${others.join(" and ")}`,
+              `Install with ${pm} only: ${pm} install`,
+            ],
+          },
+        };
+      }
+      return {
+        status: "pass",
+        message: "No lockfiles from other package managers",
+      };
+    },
+  },
+  {
+    name: "Dependencies",
+    run: async (projectPath, project) => {
+      if (existsSync(join(projectPath, "node_modules"))) {
+        return { status: "pass", message: "Dependencies are installed" };
+      }
+      const { pm } = project.options;
+      return {
+        status: "fail",
+        message: "Dependencies are not installed",
+        recovery: {
+          message: "Install dependencies",
+          steps: [formatCommand(installCommand(pm))],
+        },
+        fix: () =>
+          installDependencies(
+            projectPath,
+            logger.spinner("Installing dependencies..."),
+            pm,
+          ),
+      };
+    },
+  },
+  {
+    name: "Environment file",
+    applies: usesDatabase,
+    run: async (projectPath) => {
+      if (existsSync(join(projectPath, ".env"))) {
+        return { status: "pass", message: ".env is present" };
+      }
+      const examplePath = findEnvExample(projectPath);
+      return {
+        status: "fail",
+        message:
+          ".env is missing, the database package needs DATABASE_URL from it",
+        recovery: {
+          message: "Create .env from the example",
+          steps: [
+            `cp ${examplePath} .env`,
+            "Update DATABASE_URL for your database",
+          ],
+        },
+        fix: async () => {
+          if (!existsSync(join(projectPath, examplePath))) {
+            return false;
+          }
+          copyFileSync(
+            join(projectPath, examplePath),
+            join(projectPath, ".env"),
+          );
+          return true;
+        },
+      };
+    },
+  },
+  {
+    name: "Duplicate .env files",
+    applies: usesPrisma,
+    run: async (projectPath) => {
+      const rootEnv = join(projectPath, ".env");
+      const packageEnv = join(projectPath, "packages/database/.env");
+      if (!existsSync(rootEnv) || !existsSync(packageEnv)) {
+        return { status: "pass", message: "A single .env file" };
+      }
+      const rootUrl = readEnvValue(rootEnv, "DATABASE_URL");
+      const packageUrl = readEnvValue(packageEnv, "DATABASE_URL");
+      const conflicting =
+        rootUrl !== undefined &&
+        packageUrl !== undefined &&
+        rootUrl !== packageUrl;
+      return {
+        status: "warn",
+        message: conflicting
+          ? ".env and packages/database/.env set different DATABASE_URLs"
+          : ".env and packages/database/.env both exist",
+        recovery: {
+          message: "Keep DATABASE_URL in one place",
+          steps: [
+            "Move any settings you need from packages/database/.env into .env",
+            "Delete packages/database/.env",
+          ],
+        },
+      };
+    },
+  },
+  {
+    name: "DATABASE_URL",
+    applies: usesDatabase,
+    run: async (projectPath, project) => {
+      const envPath = join(projectPath, ".env");
+      const config =
+        DATABASE_CONFIGS[
+          project.options.orm === "drizzle" ? "drizzle" : "prisma"
+        ];
+      const configFile = basename(config.path);
+      if (!existsSync(envPath) || !existsSync(join(projectPath, config.path))) {
+        return {
+          status: "warn",
+          message: `Skipped, .env or ${configFile} is missing`,
+        };
+      }
+      const url = readEnvValue(envPath, "DATABASE_URL");
+      // The detected database comes from the schema or config's provider/dialect
+      const { name, schemes } = DATABASE_URL_SCHEMES[project.options.db];
+      if (!url) {
+        return {
+          status: "fail",
+          message: "DATABASE_URL is not set in .env",
+          recovery: {
+            message: "Set DATABASE_URL",
+            steps: [
+              `Copy DATABASE_URL from ${findEnvExample(projectPath)} into .env`,
+            ],
+          },
+        };
+      }
+      if (!schemes.some((scheme) => url.startsWith(scheme))) {
+        return {
+          status: "fail",
+          message: `DATABASE_URL is not a ${name} URL, but ${configFile} uses the ${name} ${config.setting}`,
+          recovery: {
+            message: "Point DATABASE_URL at the right database",
+            steps: [
+              `Use a URL starting with ${schemes.join(" or ")} in .env`,
+              `See ${findEnvExample(projectPath)} for an example`,
+            ],
+            helpUrl: config.helpUrl,
+          },
+        };
+      }
+      return {
+        status: "pass",
+        message: `DATABASE_URL matches the ${name} ${config.setting}`,
+      };
+    },
+  },
+  {
+    name: "Prisma client",
+    applies: usesPrisma,
+    run: async (projectPath, project) => {
+      const schemaPath = join(projectPath, SCHEMA_PATH);
+      const generatedSchema = findGeneratedSchema(projectPath);
+      if (!existsSync(schemaPath) || !generatedSchema) {
+        return {
+          status: "warn",
+          message: "Skipped, @prisma/client is not installed",
+        };
+      }
+      const generate = execCommand(
+        project.options.pm,
+        "prisma",
+        ["generate"],
+        "packages/database",
+      );
+      const recovery = {
+        message: "Regenerate the Prisma client",
+        steps: [formatCommand(generate)],
+      };
+      const fix = async () => {
+        await runCommand(generate, projectPath);
+        return true;
+      };
+      if (!existsSync(generatedSchema)) {
+        return {
+          status: "fail",
+          message: "Prisma client has not been generated",
+          recovery,
+          fix,
+        };
+      }
+      if (
+        readFileSync(generatedSchema, "utf-8") !==
+        readFileSync(schemaPath, "utf-8")
+      ) {
+        return {
+          status: "fail",
+          message: "Prisma client is out of date with schema.prisma",
+          recovery,
+          fix,
+        };
+      }
+      return { status: "pass", message: "Prisma client matches schema.prisma" };
+    },
+  },
+  {
+    name: "Migrations",
+    applies: (project) =>
+      usesPrisma(project) && project.options.dbWorkflow === "migrate",
+    run: async (projectPath, project) => {
+      const migrationsPath = join(projectPath, MIGRATIONS_PATH);
+      const migrations = existsSync(migrationsPath)
+        ? readdirSync(migrationsPath).filter((entry) =>
+            existsSync(join(migrationsPath, entry, "migration.sql")),
+          )
+        : [];
+      if (migrations.length > 0) {
+        return {
+          status: "pass",
+          message: `${migrations.length} migration${migrations.length === 1 ? "" : "s"} in ${MIGRATIONS_PATH}`,
+        };
+      }
+      const initialMigration = getInitialMigrationCommand(project.options);
+      return {
+        status: "fail",
+        message: `No migrations in ${MIGRATIONS_PATH}`,
+        recovery: {
+          message: "Create the initial migration from schema.prisma",
+          steps: [formatCommand(initialMigration)],
+        },
+        fix: async () => {
+          await runCommand(initialMigration, projectPath);
+          return true;
+        },
+      };
+    },
+  },
+  {
+    name: "Workspace dependencies",
+    run: async (projectPath) => {
+      const packages = listWorkspacePackages(projectPath);
+      const names = new Set(
+        packages.map((path) => {
+          const packageJsonPath = join(projectPath, path, "package.json");
+          return parsePackageJson(
+            readFileSync(packageJsonPath, "utf-8"),
+            packageJsonPath,
+          ).name;
+        }),
+      );
+      const mismatches: string[] = [];
+      for (const path of ["", ...packages.map((path) => `${path}/`)]) {
+        const packageJsonPath = join(projectPath, path, "package.json");
+        if (!existsSync(packageJsonPath)) {
+          continue;
+        }
+        const packageJson = parsePackageJson(
+          readFileSync(packageJsonPath, "utf-8"),
+          packageJsonPath,
+        );
+        for (const field of ["dependencies", "devDependencies"] as const) {
+          const dependencies = (packageJson[field] ?? {}) as Record<
+            string,
+            string
+          >;
+          for (const [name, version] of Object.entries(dependencies)) {
+            if (version.startsWith("workspace:") && !names.has(name)) {
+              mismatches.push(`${name} in ${path}package.json`);
+            }
+          }
+        }
+      }
+      if (mismatches.length > 0) {
+        return {
+          status: "fail",
+          message: `No workspace package named ${mismatches.join(", ")}`,
+          recovery: {
+            message: "Workspace dependencies must match a package name",
+            steps: [
+              `Rename the dependency to one of: ${[...names]
+                .filter((name) => String(name).startsWith("@"))
+                .join(", ")}`,
+              "Update imports that use the old name",
+            ],
+          },
+        };
+      }
+      return {
+        status: "pass",
+        message: "Every workspace:* dependency matches a package",
+      };
+    },
+  },
+  {
+    name: "Project lockfile",
+    run: async (projectPath) =>
+      existsSync(join(projectPath, LOCKFILE_NAME))
+        ? { status: "pass", message: `${LOCKFILE_NAME} is present` }
+        : {
+            status: "warn",
+            message: `${LOCKFILE_NAME} is missing, so upgrade can't merge template updates`,
+          },
+  },
+];
+
+function displayResult(name: string, result: CheckResult, fixed: boolean) {
+  const line = `${name}: ${result.message}${fixed ? chalk.dim(" (fixed)") : ""}`;
+  if (result.status === "pass") {
+    logger.success(line);
+    return;
+  }
+  if (result.status === "warn") {
+    logger.warn(line);
+  } else {
+    logger.error(line);
+  }
+  if (result.recovery) {
+    result.recovery.steps.forEach((step, index) => {
+      logger.step(` ${index + 1}. ${step}`);
+    });
+    if (result.recovery.helpUrl) {
+      logger.dim(`   💡 More help: ${result.recovery.helpUrl}`);
+    }
+  }
+}
+
+/**
+ * Check an existing project's health, fixing what can be fixed with `fix`
+ * Resolves to whether every check passed or only warned
+ */
+export async function runDoctor(
+  fix: boolean,
+  projectPath = process.cwd(),
+): Promise<boolean> {
+  const project = detectProject(projectPath);
+  logger.title(`Checking ${project.projectName}`);
+
+  const counts: Record<CheckStatus, number> = { pass: 0, warn: 0, fail: 0 };
+  let fixable = 0;
+  for (const check of CHECKS) {
+    if (check.applies && !check.applies(project)) {
+      continue;
+    }
+    let result = await check.run(projectPath, project);
+    let fixed = false;
+    if (fix && result.status !== "pass" && result.fix) {
+      try {
+        fixed = await result.fix();
+      } catch (error) {
+        logger.error(
+          `Could not fix ${check.name}: ${(error as Error).message}`,
+        );
+      }
+      if (fixed) {
+        result = await check.run(projectPath, project);
+        fixed = result.status === "pass";
+      }
+    }
+    if (result.status !== "pass" && result.fix) {
+      fixable++;
+    }
+    counts[result.status]++;
+    displayResult(check.name, result, fixed);
+  }
+
+  logger.break();
+  logger.info(
+    `${counts.pass} passed, ${counts.warn} warning${counts.warn === 1 ? "" : "s"}, ${counts.fail} failed`,
+  );
+  if (fixable > 0 && !fix) {
+    logger.dim(
+      `Run with --fix to fix ${fixable} problem${fixable === 1 ? "" : "s"} automatically`,
+    );
+  }
+  return counts.fail === 0;
+}
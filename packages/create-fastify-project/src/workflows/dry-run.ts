@@ -0,0 +1,151 @@
+import chalk from "chalk";
+import {
+  type FilePlan,
+  type PlannedCommand,
+  formatCommand,
+} from "../helpers/file-plan";
+import { logger } from "../helpers/logger";
+import type { ConflictPolicy } from "../types";
+
+const DEPENDENCY_FIELDS = [
+  "scripts",
+  "dependencies",
+  "devDependencies",
+] as const;
+
+/**
+ * Print the planned files as an indented tree
+ */
+function displayFileTree(paths: string[]): void {
+  const printedDirectories = new Set<string>();
+
+  for (const path of paths) {
+    const segments = path.split("/");
+
+    // Print each parent directory the first time it is reached
+    for (let depth = 0; depth < segments.length - 1; depth++) {
+      const directory = segments.slice(0, depth + 1).join("/");
+      if (!printedDirectories.has(directory)) {
+        printedDirectories.add(directory);
+        console.log(
+          `  ${"  ".repeat(depth)}${chalk.cyan(`${segments[depth]}/`)}`,
+        );
+      }
+    }
+
+    console.log(
+      `  ${"  ".repeat(segments.length - 1)}${segments[segments.length - 1]}`,
+    );
+  }
+}
+
+/**
+ * Describe script and dependency changes between two package.json files
+ */
+export function diffPackageJson(original: string, updated: string): string[] {
+  const before = JSON.parse(original);
+  const after = JSON.parse(updated);
+  const lines: string[] = [];
+
+  for (const field of DEPENDENCY_FIELDS) {
+    const oldEntries: Record<string, string> = before[field] ?? {};
+    const newEntries: Record<string, string> = after[field] ?? {};
+
+    for (const [name, value] of Object.entries(newEntries)) {
+      if (!(name in oldEntries)) {
+        lines.push(chalk.green(`+ ${field}.${name}: ${value}`));
+      } else if (oldEntries[name] !== value) {
+        lines.push(
+          chalk.yellow(`~ ${field}.${name}: ${oldEntries[name]} → ${value}`),
+        );
+      }
+    }
+    for (const [name, value] of Object.entries(oldEntries)) {
+      if (!(name in newEntries)) {
+        lines.push(chalk.red(`- ${field}.${name}: ${value}`));
+      }
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Display everything a run would do without touching the disk
+ */
+export function displayDryRun(
+  plan: FilePlan,
+  commands: PlannedCommand[],
+  projectPath: string,
+  conflicts: string[],
+  conflictPolicy: ConflictPolicy,
+  interactive: boolean,
+): void {
+  const paths = plan.paths();
+
+  logger.section(`Files to be created in ${projectPath} (${paths.length}):`);
+  displayFileTree(paths);
+
+  if (plan.removed.size > 0) {
+    logger.section("Template files left out:");
+    for (const [path, reason] of plan.removed) {
+      logger.listItem(`${path} ${chalk.dim(`(${reason})`)}`);
+    }
+  }
+
+  if (conflicts.length > 0) {
+    const action = {
+      prompt: interactive ? "you will be asked" : "blocks the run",
+      overwrite: "overwritten",
+      skip: "kept",
+    }[conflictPolicy];
+    logger.section("Existing files:");
+    for (const path of conflicts) {
+      logger.listItem(`${path} ${chalk.dim(`(${action})`)}`);
+    }
+    if (conflictPolicy === "prompt" && !interactive) {
+      logger.warn(
+        "The run would stop on these files, use --force to overwrite or --skip-existing to keep them",
+      );
+    }
+  }
+
+  const packageJsonChanges = plan
+    .changedPaths()
+    .filter((path) => path.endsWith("package.json"));
+  if (packageJsonChanges.length > 0) {
+    logger.section("package.json changes:");
+    for (const path of packageJsonChanges) {
+      const file = plan.get(path);
+      if (!file) {
+        continue;
+      }
+      let lines: string[];
+      try {
+        lines = diffPackageJson(
+          file.original.toString("utf-8"),
+          file.content.toString("utf-8"),
+        );
+      } catch {
+        lines = [chalk.yellow("content changed (not valid JSON)")];
+      }
+      if (lines.length > 0) {
+        console.log(chalk.cyan(`  ${path}`));
+        for (const line of lines) {
+          console.log(`    ${line}`);
+        }
+      }
+    }
+  }
+
+  logger.section("Commands that would run:");
+  if (commands.length === 0) {
+    logger.dim("  None");
+  }
+  for (const command of commands) {
+    logger.command(formatCommand(command));
+  }
+
+  logger.break();
+  logger.info("Dry run complete, nothing was written");
+}
@@ -0,0 +1,596 @@
+import { existsSync, readFileSync, readdirSync, statSync } from "node:fs";
+import { rm, rmdir } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import chalk from "chalk";
+import {
+  FilePlan,
+  type PlannedCommand,
+  formatCommand,
+} from "../helpers/file-plan";
+import { hashContent, readLockfile, writeLockfile } from "../helpers/lockfile";
+import { logger } from "../helpers/logger";
+import {
+  mergePackageJsonChanges,
+  parsePackageJson,
+  stringifyPackageJson,
+  withoutVersions,
+} from "../helpers/package-json";
+import { installCommand } from "../helpers/package-manager";
+import { detectProject } from "../helpers/project";
+import { promptForTemplateVariables } from "../helpers/prompts";
+import { validateProjectOptions } from "../helpers/validation";
+import type { ConflictPolicy, ProjectOptions } from "../types";
+import { resolveConflicts } from "./conflicts";
+import {
+  getDatabaseCommands,
+  setupDatabase,
+  setupExternalDatabase,
+} from "./database";
+import { diffPackageJson } from "./dry-run";
+import { getInstallCommands, installDependencies } from "./install";
+import {
+  fetchTemplateFiles,
+  renderTemplate,
+  writeProjectFiles,
+} from "./templates";
+
+export interface FeatureFlags {
+  db?: ProjectOptions["db"];
+  dbWorkflow?: ProjectOptions["dbWorkflow"];
+  template?: string;
+  install?: boolean;
+  onConflict?: ConflictPolicy;
+  dryRun?: boolean;
+  yes?: boolean;
+}
+
+interface Feature {
+  description: string;
+  /** Options the template is rendered with once the feature is added */
+  add: (
+    current: ProjectOptions,
+    flags: FeatureFlags,
+  ) => Partial<ProjectOptions>;
+  /** Options once the feature is removed, for features that can be turned off */
+  remove?: (current: ProjectOptions) => Partial<ProjectOptions>;
+  /** Module specifiers user code reaches the feature through */
+  imports?: (projectName: string) => string[];
+}
+
+/**
+ * Features that can be added to or removed from a generated project
+ * Each one maps to template options, so the template decides what changes
+ */
+export const FEATURES: Record<string, Feature> = {
+  prisma: {
+    description: "Prisma ORM with a shared database package",
+    add: (current, flags) => ({
+      orm: "prisma",
+      db: flags.db ?? current.db,
+      dbWorkflow: flags.dbWorkflow ?? current.dbWorkflow,
+    }),
+    remove: (current) => (current.orm === "prisma" ? { orm: "none" } : {}),
+    imports: (projectName) => [`@${projectName}/database`],
+  },
+  drizzle: {
+    description: "Drizzle ORM with a shared database package",
+    add: (current, flags) => ({
+      orm: "drizzle",
+      db: flags.db ?? current.db,
+      dbWorkflow: flags.dbWorkflow ?? current.dbWorkflow,
+    }),
+    remove: (current) => (current.orm === "drizzle" ? { orm: "none" } : {}),
+    imports: (projectName) => [`@${projectName}/database`],
+  },
+  openapi: {
+    description: "OpenAPI spec generation and Swagger UI in the API",
+    add: () => ({ openapi: true }),
+    remove: () => ({ openapi: false }),
+    imports: () => ["@fastify/swagger", "@apidevtools/swagger-parser"],
+  },
+  eslint: {
+    description: "ESLint and Prettier instead of Biome",
+    add: () => ({ lint: "eslint" }),
+  },
+  biome: {
+    description: "Biome instead of ESLint and Prettier",
+    add: () => ({ lint: "biome" }),
+  },
+};
+
+/** Features people ask for that the template can't generate yet */
+export const UNSUPPORTED_FEATURES = ["docker", "auth"];
+
+/** Directories that only hold installed or built files */
+const ARTIFACT_DIRECTORIES = [
+  "node_modules",
+  "dist",
+  "build",
+  ".turbo",
+  ".react-router",
+];
+
+const SOURCE_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx"];
+
+export interface FeatureChanges {
+  /** Files to write, with the project's current content as the original */
+  plan: FilePlan;
+  /** Planned files that don't exist in the project yet */
+  created: string[];
+  /** Existing files the user changed since they were generated */
+  conflicts: string[];
+  /** Generated files the feature no longer needs */
+  removals: string[];
+  /** Files the feature no longer needs that the user changed or added */
+  kept: string[];
+  /** Template directories the feature no longer needs */
+  directories: string[];
+}
+
+/**
+ * Compare ignoring whitespace, as generated files are formatted after install,
+ * and package.json dependency versions, which are updated at creation
+ */
+export function isUnmodified(
+  path: string,
+  current: Buffer,
+  generated: Buffer,
+): boolean {
+  if (current.equals(generated)) {
+    return true;
+  }
+  if (basename(path) === "package.json") {
+    try {
+      return (
+        JSON.stringify(
+          withoutVersions(JSON.parse(current.toString("utf-8"))),
+        ) ===
+        JSON.stringify(withoutVersions(JSON.parse(generated.toString("utf-8"))))
+      );
+    } catch {
+      return false;
+    }
+  }
+  return (
+    current.toString("utf-8").replace(/\s+/g, "") ===
+    generated.toString("utf-8").replace(/\s+/g, "")
+  );
+}
+
+/**
+ * Files below a project directory, skipping installed and built files
+ */
+function listFiles(projectPath: string, directory: string): string[] {
+  const files: string[] = [];
+  for (const entry of readdirSync(join(projectPath, directory))) {
+    const path = `${directory}/${entry}`;
+    if (ARTIFACT_DIRECTORIES.includes(entry)) {
+      continue;
+    }
+    if (statSync(join(projectPath, path)).isDirectory()) {
+      files.push(...listFiles(projectPath, path));
+    } else {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+/**
+ * Work out which project files change between two renders of the template
+ * package.json files are merged, other files are replaced
+ */
+export function planFeatureChanges(
+  projectPath: string,
+  before: FilePlan,
+  after: FilePlan,
+): FeatureChanges {
+  const changes: FeatureChanges = {
+    plan: new FilePlan(),
+    created: [],
+    conflicts: [],
+    removals: [],
+    kept: [],
+    directories: [],
+  };
+
+  for (const path of after.paths()) {
+    const generated = after.get(path)?.content ?? Buffer.alloc(0);
+    const previous = before.get(path)?.content;
+    if (previous?.equals(generated)) {
+      continue;
+    }
+
+    const targetPath = join(projectPath, path);
+    if (!existsSync(targetPath)) {
+      changes.plan.add(path, generated);
+      changes.created.push(path);
+      continue;
+    }
+
+    const current = readFileSync(targetPath);
+    if (basename(path) === "package.json" && previous) {
+      const content = current.toString("utf-8");
+      const merged = stringifyPackageJson(
+        mergePackageJsonChanges(
+          parsePackageJson(content, path),
+          parsePackageJson(previous.toString("utf-8"), path),
+          parsePackageJson(generated.toString("utf-8"), path),
+        ),
+        content,
+      );
+      if (merged !== content) {
+        changes.plan.add(path, current);
+        changes.plan.write(path, merged);
+      }
+      continue;
+    }
+
+    if (isUnmodified(path, current, generated)) {
+      continue;
+    }
+    changes.plan.add(path, current);
+    changes.plan.write(path, generated);
+    if (!previous || !isUnmodified(path, current, previous)) {
+      changes.conflicts.push(path);
+    }
+  }
+
+  for (const path of before.paths()) {
+    const targetPath = join(projectPath, path);
+    if (after.has(path) || !existsSync(targetPath)) {
+      continue;
+    }
+    const previous = before.get(path)?.content ?? Buffer.alloc(0);
+    if (isUnmodified(path, readFileSync(targetPath), previous)) {
+      changes.removals.push(path);
+    } else {
+      changes.kept.push(path);
+    }
+  }
+
+  // Files the user added to a directory the feature no longer needs
+  for (const directory of after.removed.keys()) {
+    const targetPath = join(projectPath, directory);
+    if (
+      before.removed.has(directory) ||
+      !existsSync(targetPath) ||
+      !statSync(targetPath).isDirectory()
+    ) {
+      continue;
+    }
+    changes.directories.push(directory);
+    for (const path of listFiles(projectPath, directory)) {
+      if (!before.has(path)) {
+        changes.kept.push(path);
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Source files that still import the feature once the changes are applied
+ */
+export function findFeatureImports(
+  projectPath: string,
+  changes: FeatureChanges,
+  specifiers: string[],
+): string[] {
+  const removed = new Set(changes.removals);
+  const found: string[] = [];
+
+  for (const directory of ["apps", "packages"]) {
+    if (!existsSync(join(projectPath, directory))) {
+      continue;
+    }
+    for (const path of listFiles(projectPath, directory)) {
+      if (
+        removed.has(path) ||
+        changes.directories.some((dir) => path.startsWith(`${dir}/`)) ||
+        !SOURCE_EXTENSIONS.some((extension) => path.endsWith(extension))
+      ) {
+        continue;
+      }
+      const content = changes.plan.has(path)
+        ? changes.plan.read(path)
+        : readFileSync(join(projectPath, path), "utf-8");
+      for (const [index, line] of content.split("\n").entries()) {
+        if (
+          specifiers.some(
+            (specifier) =>
+              line.includes(`"${specifier}`) || line.includes(`'${specifier}`),
+          )
+        ) {
+          found.push(`${path}:${index + 1}`);
+        }
+      }
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Print the files, scripts and dependencies a feature change touches
+ */
+function displayFeatureChanges(changes: FeatureChanges, dryRun: boolean): void {
+  const created = changes.created;
+  const updated = changes.plan
+    .paths()
+    .filter((path) => !created.includes(path));
+
+  if (created.length > 0) {
+    logger.section(dryRun ? "Files to be created:" : "Created:");
+    for (const path of created) {
+      logger.listItem(path);
+    }
+  }
+
+  if (updated.length > 0) {
+    logger.section(dryRun ? "Files to be updated:" : "Updated:");
+    for (const path of updated) {
+      const file = changes.plan.get(path);
+      const conflict = changes.conflicts.includes(path)
+        ? chalk.dim(" (changed by you)")
+        : "";
+      logger.listItem(`${path}${conflict}`);
+      if (file && basename(path) === "package.json") {
+        for (const line of diffPackageJson(
+          file.original.toString("utf-8"),
+          file.content.toString("utf-8"),
+        )) {
+          console.log(`      ${line}`);
+        }
+      }
+    }
+  }
+
+  if (changes.removals.length > 0) {
+    logger.section(dryRun ? "Files to be removed:" : "Removed:");
+    for (const path of changes.removals) {
+      logger.listItem(path);
+    }
+  }
+
+  if (changes.kept.length > 0) {
+    logger.section("No longer needed, kept because you changed or added them:");
+    for (const path of changes.kept) {
+      logger.listItem(path);
+    }
+  }
+}
+
+/**
+ * Remove a file and any parent directories it leaves empty
+ */
+export async function removeFile(
+  projectPath: string,
+  path: string,
+): Promise<void> {
+  await rm(join(projectPath, path), { force: true });
+  let directory = dirname(path);
+  while (directory !== ".") {
+    const directoryPath = join(projectPath, directory);
+    if (!existsSync(directoryPath) || readdirSync(directoryPath).length > 0) {
+      break;
+    }
+    await rmdir(directoryPath);
+    directory = dirname(directory);
+  }
+}
+
+/**
+ * Keep the project's lockfile in step with the options it now matches
+ */
+async function updateLockfile(
+  projectPath: string,
+  options: ProjectOptions,
+  after: FilePlan,
+  changes: FeatureChanges,
+): Promise<void> {
+  const lockfile = readLockfile(projectPath);
+  if (!lockfile) {
+    return;
+  }
+  const files = { ...lockfile.files };
+  for (const path of changes.plan.paths()) {
+    const generated = after.get(path)?.content;
+    if (generated) {
+      files[path] = hashContent(generated);
+    }
+  }
+  for (const path of [...changes.removals, ...changes.kept]) {
+    delete files[path];
+  }
+  await writeLockfile(projectPath, { ...lockfile, options, files });
+}
+
+/**
+ * Add or remove a feature in an existing project by rendering the template
+ * with and without it and applying the difference
+ */
+export async function changeFeature(
+  action: "add" | "remove",
+  featureName: string,
+  flags: FeatureFlags,
+  projectPath = process.cwd(),
+): Promise<void> {
+  const feature = FEATURES[featureName];
+  if (!feature && UNSUPPORTED_FEATURES.includes(featureName)) {
+    throw new Error(
+      `The template has no ${featureName} setup yet, so there is nothing to ${action}. Available features: ${Object.keys(FEATURES).join(", ")}`,
+    );
+  }
+  if (!feature) {
+    throw new Error(
+      `Unknown feature "${featureName}". Available features: ${Object.keys(FEATURES).join(", ")}`,
+    );
+  }
+  if (action === "remove" && !feature.remove) {
+    throw new Error(
+      `${featureName} can't be removed, add another feature to replace it instead`,
+    );
+  }
+
+  const project = detectProject(projectPath);
+  const current: ProjectOptions = {
+    ...project.options,
+    template: flags.template ?? project.options.template,
+  };
+  const options: ProjectOptions = {
+    ...current,
+    ...(action === "add"
+      ? feature.add(current, flags)
+      : (feature.remove?.(current) ?? {})),
+  };
+  validateProjectOptions(options);
+
+  const verb = action === "add" ? "Adding" : "Removing";
+  logger.title(
+    `${verb} ${featureName} ${action === "add" ? "to" : "from"} ${project.projectName}`,
+  );
+  if (JSON.stringify(options) === JSON.stringify(current)) {
+    logger.info(
+      action === "add"
+        ? `${project.projectName} already uses ${featureName}`
+        : `${project.projectName} doesn't use ${featureName}`,
+    );
+    return;
+  }
+
+  const spinner = logger.spinner("Loading template...");
+  const template = await fetchTemplateFiles(projectPath, options, spinner);
+  let changes: FeatureChanges;
+  let after: FilePlan;
+  try {
+    spinner.start("Comparing project with the template...");
+    const answers =
+      project.answers ??
+      (await promptForTemplateVariables(
+        template.manifest.prompts ?? [],
+        false,
+      ));
+    const before = await renderTemplate(
+      template,
+      project.projectName,
+      current,
+      answers,
+    );
+    after = await renderTemplate(
+      template,
+      project.projectName,
+      options,
+      answers,
+    );
+    changes = planFeatureChanges(projectPath, before, after);
+    spinner.succeed("Compared project with the template");
+  } catch (error) {
+    spinner.fail("Failed to render the template");
+    throw error;
+  } finally {
+    await template.cleanup();
+  }
+
+  // The database only needs setting up when the ORM is new
+  const databaseCommands =
+    options.orm !== "none" && options.orm !== current.orm
+      ? getDatabaseCommands(options, projectPath)
+      : [];
+  const conflictPolicy = flags.onConflict ?? "prompt";
+  const specifiers =
+    action === "remove" ? (feature.imports?.(project.projectName) ?? []) : [];
+
+  if (flags.dryRun) {
+    displayFeatureChanges(changes, true);
+    const imports = findFeatureImports(projectPath, changes, specifiers);
+    if (imports.length > 0) {
+      logger.warn(`${featureName} is still imported from:`);
+      for (const location of imports) {
+        logger.listItem(location);
+      }
+    }
+    const commands: PlannedCommand[] = flags.install
+      ? [...getInstallCommands(options.pm), ...databaseCommands]
+      : [];
+    logger.section("Commands that would run:");
+    if (commands.length === 0) {
+      logger.dim("  None");
+    }
+    for (const command of commands) {
+      logger.command(formatCommand(command));
+    }
+    logger.break();
+    logger.info("Dry run complete, nothing was written");
+    return;
+  }
+
+  // Removing a package that code still imports would break the build
+  const imports = findFeatureImports(projectPath, changes, specifiers);
+  if (imports.length > 0) {
+    throw new Error(
+      `${featureName} is still imported from:\n${imports.map((location) => `  • ${location}`).join("\n")}\nRemove these imports first`,
+    );
+  }
+
+  await resolveConflicts(
+    changes.plan,
+    projectPath,
+    changes.conflicts,
+    conflictPolicy,
+    !flags.yes && process.stdin.isTTY,
+  );
+
+  // --force also discards the user's changes to files no longer needed
+  if (conflictPolicy === "overwrite") {
+    changes.removals.push(...changes.kept);
+    changes.kept = [];
+  }
+
+  if (changes.plan.paths().length > 0) {
+    await writeProjectFiles(changes.plan, projectPath, spinner);
+  }
+  for (const path of changes.removals) {
+    await removeFile(projectPath, path);
+  }
+  for (const directory of changes.directories) {
+    const directoryPath = join(projectPath, directory);
+    if (
+      existsSync(directoryPath) &&
+      readdirSync(directoryPath).every((entry) =>
+        ARTIFACT_DIRECTORIES.includes(entry),
+      )
+    ) {
+      await rm(directoryPath, { recursive: true, force: true });
+    }
+  }
+  await updateLockfile(projectPath, options, after, changes);
+  displayFeatureChanges(changes, false);
+
+  // Dependencies changed, so install them like a new project would
+  const unfinished: PlannedCommand[] = [];
+  if (!flags.install) {
+    unfinished.push(installCommand(options.pm), ...databaseCommands);
+  } else if (!(await installDependencies(projectPath, spinner, options.pm))) {
+    unfinished.push(installCommand(options.pm), ...databaseCommands);
+  } else if (
+    databaseCommands.length > 0 &&
+    !(await (options.db === "sqlite"
+      ? setupDatabase(projectPath, spinner, options)
+      : setupExternalDatabase(projectPath, spinner, options)))
+  ) {
+    unfinished.push(...databaseCommands);
+  }
+
+  logger.success(
+    `${action === "add" ? "Added" : "Removed"} ${featureName} ${action === "add" ? "to" : "from"} ${project.projectName}`,
+  );
+  if (unfinished.length > 0) {
+    logger.section("Finish the setup:");
+    for (const command of unfinished) {
+      logger.command(formatCommand(command));
+    }
+    logger.break();
+  }
+}
@@ -0,0 +1,286 @@
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import ejs from "ejs";
+import { FilePlan, runCommand } from "../helpers/file-plan";
+import { logger } from "../helpers/logger";
+import { parsePackageJson } from "../helpers/package-json";
+import { formatRunScript, runScriptCommand } from "../helpers/package-manager";
+import { detectProject } from "../helpers/project";
+import {
+  type ResourceField,
+  capitalize,
+  getResourceNames,
+  parseFields,
+} from "../helpers/resource";
+import { resolveGeneratorPath } from "../template-registry";
+import { writeProjectFiles } from "./templates";
+
+export interface GenerateFlags {
+  /** Field definitions, e.g. `title:string,done:boolean` */
+  fields: string;
+  /** Also scaffold list and detail routes in the web app */
+  web?: boolean;
+  /** Replace generated files that already exist */
+  force?: boolean;
+  dryRun?: boolean;
+}
+
+const SCHEMA_PATH = "packages/database/prisma/schema.prisma";
+const DATABASE_PATH = "packages/database/src/index.ts";
+const API_PACKAGE_PATH = "apps/api/package.json";
+const WEB_ROUTES_PATH = "apps/web/app/routes.ts";
+const WEB_API_PATH = "apps/web/app/api.server.ts";
+
+/**
+ * Model lines aligned the way `prisma format` writes them
+ */
+function getModelColumns(fields: ResourceField[]): string[] {
+  const rows = [
+    ["id", "String", "@id @default(cuid())"],
+    ...fields.map((field) => [
+      field.name,
+      `${field.prisma}${field.optional ? "?" : ""}`,
+      field.attributes ?? "",
+    ]),
+    ["createdAt", "DateTime", "@default(now())"],
+    ["updatedAt", "DateTime", "@updatedAt"],
+  ];
+  const nameWidth = Math.max(...rows.map(([name]) => name.length));
+  const typeWidth = Math.max(...rows.map(([, type]) => type.length));
+  return rows.map(([name, type, attributes]) =>
+    `${name.padEnd(nameWidth)} ${type.padEnd(typeWidth)} ${attributes}`.trimEnd(),
+  );
+}
+
+/**
+ * Add routes to the array exported from React Router's `app/routes.ts`
+ */
+function addWebRoutes(source: string, routes: string[]): string {
+  const routeList = source.match(
+    /export default \[([\s\S]*?)\]\s*satisfies RouteConfig/,
+  );
+  if (!routeList || routeList.index === undefined) {
+    throw new Error(
+      `Could not find the exported route list in ${WEB_ROUTES_PATH}`,
+    );
+  }
+
+  const existing = routeList[1].trim().replace(/,$/, "");
+  const entries = routeList[1].includes("\n")
+    ? routeList[1].replace(/,?\s*$/, ",")
+    : existing
+      ? `\n  ${existing},`
+      : "";
+  const updated = source.replace(
+    routeList[0],
+    `export default [${entries}\n${routes.map((route) => `  ${route},`).join("\n")}\n] satisfies RouteConfig`,
+  );
+
+  // `route` is needed next to the `index` the template imports
+  return updated.replace(
+    /import\s*\{([^}]*)\}\s*from\s*"@react-router\/dev\/routes";/,
+    (statement, specifiers: string) => {
+      const names = specifiers
+        .split(",")
+        .map((name) => name.trim())
+        .filter(Boolean);
+      return names.includes("route")
+        ? statement
+        : `import { ${[...names, "route"].join(", ")} } from "@react-router/dev/routes";`;
+    },
+  );
+}
+
+/**
+ * Read a project file into the plan so it can be changed
+ */
+function readIntoPlan(plan: FilePlan, projectPath: string, path: string) {
+  const filePath = join(projectPath, path);
+  if (!existsSync(filePath)) {
+    throw new Error(`${path} not found, was it moved or deleted?`);
+  }
+  plan.add(path, readFileSync(filePath));
+  return plan.read(path);
+}
+
+/**
+ * Scaffold a Prisma model, database helpers, API routes and optionally web
+ * routes for a resource in an existing project
+ */
+export async function generateResource(
+  name: string,
+  flags: GenerateFlags,
+  projectPath = process.cwd(),
+): Promise<void> {
+  const project = detectProject(projectPath);
+  if (project.options.orm === "drizzle") {
+    throw new Error(
+      "Resources are generated for Prisma projects only. Switch the project to Prisma with: create-fastify-project add prisma, or add a table to packages/database/src/schema.ts and its helpers to packages/database/src/index.ts by hand",
+    );
+  }
+  if (project.options.orm !== "prisma") {
+    throw new Error(
+      "Resources are stored with Prisma. Add it first with: create-fastify-project add prisma",
+    );
+  }
+  const names = getResourceNames(name);
+  const fields = parseFields(flags.fields);
+
+  // Generated routes are typed from their schemas with TypeBox
+  const apiPackagePath = join(projectPath, API_PACKAGE_PATH);
+  const apiPackage = parsePackageJson(
+    readFileSync(apiPackagePath, "utf-8"),
+    apiPackagePath,
+  );
+  const { dependencies = {} } = apiPackage as {
+    dependencies?: Record<string, string>;
+  };
+  if (!dependencies["@fastify/type-provider-typebox"]) {
+    throw new Error(
+      "Generated routes need the TypeBox type provider and autoloaded routes of newer templates. Update the project first with: create-fastify-project upgrade",
+    );
+  }
+  // Generated pages call the API through the typed client
+  if (flags.web && !existsSync(join(projectPath, WEB_API_PATH))) {
+    throw new Error(
+      `Generated pages use the typed API client from ${WEB_API_PATH}. Update the project first with: create-fastify-project upgrade`,
+    );
+  }
+  const { scripts = {} } = apiPackage as { scripts?: Record<string, string> };
+  const hasApiClient = Boolean(scripts["api-client:generate"]);
+
+  const databasePackagePath = join(
+    projectPath,
+    "packages/database/package.json",
+  );
+  const databasePackage = parsePackageJson(
+    readFileSync(databasePackagePath, "utf-8"),
+    databasePackagePath,
+  );
+  const generatorPath = resolveGeneratorPath("resource");
+  const context = {
+    ...names,
+    fields,
+    packageScope: String(databasePackage.name).replace(/\/database$/, ""),
+    titleField:
+      fields.find((field) => field.type === "string" && !field.optional)
+        ?.name ?? "id",
+    columns: getModelColumns(fields),
+    capitalize,
+  };
+  const render = (file: string) =>
+    ejs.render(readFileSync(join(generatorPath, file), "utf-8"), context, {
+      filename: join(generatorPath, file),
+      async: false,
+    });
+
+  logger.title(`Generating ${names.model}`);
+  const plan = new FilePlan();
+  const created: string[] = [];
+  const addFile = (path: string, content: string) => {
+    if (existsSync(join(projectPath, path)) && !flags.force) {
+      throw new Error(`${path} already exists, pass --force to replace it`);
+    }
+    plan.add(path, content);
+    created.push(path);
+  };
+
+  const schema = readIntoPlan(plan, projectPath, SCHEMA_PATH);
+  if (new RegExp(`^model\\s+${names.model}\\s*\\{`, "m").test(schema)) {
+    throw new Error(`Model ${names.model} already exists in schema.prisma`);
+  }
+  plan.write(SCHEMA_PATH, `${schema.trimEnd()}\n${render("model.prisma.ejs")}`);
+
+  const database = readIntoPlan(plan, projectPath, DATABASE_PATH);
+  plan.write(
+    DATABASE_PATH,
+    `${database.trimEnd()}\n${render("database.ts.ejs")}`,
+  );
+
+  const routePath = `apps/api/src/routes/${names.pluralKebab}.ts`;
+  addFile(routePath, render("route.ts.ejs"));
+
+  if (flags.web) {
+    const listRoute = `routes/${names.pluralKebab}.tsx`;
+    const detailRoute = `routes/${names.pluralKebab}.$id.tsx`;
+    addFile(`apps/web/app/${listRoute}`, render("list.tsx.ejs"));
+    addFile(`apps/web/app/${detailRoute}`, render("detail.tsx.ejs"));
+    const routes = readIntoPlan(plan, projectPath, WEB_ROUTES_PATH);
+    plan.write(
+      WEB_ROUTES_PATH,
+      addWebRoutes(routes, [
+        `route("${names.pluralKebab}", "${listRoute}")`,
+        `route("${names.pluralKebab}/:id", "${detailRoute}")`,
+      ]),
+    );
+  }
+
+  const updated = plan.paths().filter((path) => !created.includes(path));
+  logger.section(flags.dryRun ? "Files to be created:" : "Created:");
+  for (const path of created) {
+    logger.listItem(path);
+  }
+  logger.section(flags.dryRun ? "Files to be updated:" : "Updated:");
+  for (const path of updated) {
+    logger.listItem(path);
+  }
+  logger.break();
+
+  if (flags.dryRun) {
+    logger.info("Dry run complete, nothing was written");
+    return;
+  }
+
+  // Started by the write, so its text is printed once
+  const spinner = logger.spinner();
+  await writeProjectFiles(plan, projectPath, spinner);
+
+  const { pm } = project.options;
+  const installed = existsSync(join(projectPath, "node_modules"));
+
+  // The client gets a method for each new route
+  let clientUpdated = false;
+  if (hasApiClient && installed) {
+    spinner.start("Updating the API client...");
+    try {
+      await runCommand(
+        runScriptCommand(pm, "api-client:generate"),
+        projectPath,
+      );
+      spinner.succeed("Updated the API client");
+      clientUpdated = true;
+    } catch {
+      spinner.warn("Could not update the API client");
+    }
+  }
+
+  // Generated code follows the project's formatting once dependencies exist
+  if (installed) {
+    spinner.start("Formatting generated code...");
+    try {
+      await runCommand(runScriptCommand(pm, "format"), projectPath);
+      spinner.succeed("Formatted generated code");
+    } catch {
+      spinner.warn(
+        "Could not format generated code (this is usually not critical)",
+      );
+    }
+  }
+
+  logger.success(`Generated ${names.model}`);
+  logger.section("Apply the new model to your database:");
+  logger.command(
+    formatRunScript(
+      pm,
+      project.options.dbWorkflow === "migrate" ? "db:migrate" : "db:push",
+    ),
+  );
+  if (hasApiClient && !clientUpdated) {
+    logger.section("Add the new routes to the API client:");
+    logger.command(formatRunScript(pm, "api-client:generate"));
+  }
+  logger.break();
+  logger.dim(
+    `API routes are served under /api/${names.pluralKebab}${flags.web ? `, pages under /${names.pluralKebab}` : ""}`,
+  );
+}
@@ -1,6 +1,18 @@
-import { type ExecaError, execa } from "execa";
+import type { ExecaError } from "execa";
 import type { Ora } from "ora";
 import { handleGitError } from "../helpers/error-handling";
+import { type PlannedCommand, runCommand } from "../helpers/file-plan";
+
+/**
+ * Commands run to create the initial commit
+ */
+export function getGitCommands(): PlannedCommand[] {
+  return [
+    { command: "git", args: ["init"] },
+    { command: "git", args: ["add", "."] },
+    { command: "git", args: ["commit", "-m", "Initial commit"] },
+  ];
+}
 
 /**
  * Handle git initialization with enhanced error handling
@@ -8,15 +20,14 @@ import { handleGitError } from "../helpers/error-handling";
 export async function initializeGit(
   projectPath: string,
   spinner: Ora,
-): Promise<void> {
+): Promise<boolean> {
   spinner.start("Initializing git repository...");
   try {
-    await execa("git", ["init"], { cwd: projectPath });
-    await execa("git", ["add", "."], { cwd: projectPath });
-    await execa("git", ["commit", "-m", "Initial commit"], {
-      cwd: projectPath,
-    });
+    for (const command of getGitCommands()) {
+      await runCommand(command, projectPath);
+    }
     spinner.succeed("Initialized git repository");
+    return true;
   } catch (error) {
     spinner.warn("Git initialization failed (this is not critical)");
     const enhancedError = handleGitError(error as ExecaError, {
@@ -25,5 +36,6 @@ export async function initializeGit(
       command: "git init/add/commit",
     });
     enhancedError.display();
+    return false;
   }
 }
@@ -1,6 +1,21 @@
-import { type ExecaError, execa } from "execa";
+import type { ExecaError } from "execa";
 import type { Ora } from "ora";
 import { handlePackageManagerError } from "../helpers/error-handling";
+import { type PlannedCommand, runCommand } from "../helpers/file-plan";
+import {
+  type PackageManager,
+  installCommand,
+  runScriptCommand,
+} from "../helpers/package-manager";
+
+/**
+ * Commands run to install dependencies and format the generated code
+ */
+export function getInstallCommands(
+  pm: PackageManager,
+): [PlannedCommand, PlannedCommand] {
+  return [installCommand(pm), runScriptCommand(pm, "format")];
+}
 
 /**
  * Handle dependency installation with enhanced error handling
@@ -8,16 +23,19 @@ import { handlePackageManagerError } from "../helpers/error-handling";
 export async function installDependencies(
   projectPath: string,
   spinner: Ora,
+  pm: PackageManager,
 ): Promise<boolean> {
+  const [install, format] = getInstallCommands(pm);
+
   spinner.start("Installing dependencies...");
   try {
-    await execa("pnpm", ["install"], { cwd: projectPath });
+    await runCommand(install, projectPath);
     spinner.succeed("Installed dependencies");
 
     // Format generated code after dependencies are installed
     spinner.start("Formatting generated code...");
     try {
-      await execa("pnpm", ["format"], { cwd: projectPath });
+      await runCommand(format, projectPath);
       spinner.succeed("Formatted generated code");
     } catch (error) {
       spinner.warn(
@@ -28,11 +46,15 @@ export async function installDependencies(
     return true;
   } catch (error) {
     spinner.fail("Failed to install dependencies");
-    const enhancedError = handlePackageManagerError(error as ExecaError, {
-      operation: "Dependency installation",
-      projectPath,
-      command: "pnpm install",
-    });
+    const enhancedError = handlePackageManagerError(
+      error as ExecaError,
+      {
+        operation: "Dependency installation",
+        projectPath,
+        command: `${pm} install`,
+      },
+      pm,
+    );
     enhancedError.display();
     return false;
   }
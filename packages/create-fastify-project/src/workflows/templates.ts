@@ -1,63 +1,151 @@
-import { readFileSync, writeFileSync } from "node:fs";
-import { readdir, stat } from "node:fs/promises";
-import { resolve } from "node:path";
+import { existsSync } from "node:fs";
+import { mkdir, mkdtemp, rename, rm } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
 import chalk from "chalk";
 import type { Ora } from "ora";
+import { removeOnExit } from "../helpers/cleanup";
 import { copyTemplate } from "../helpers/copy-template";
-import { handleFileSystemError } from "../helpers/error-handling";
+import {
+  handleFileSystemError,
+  handleTemplateSourceError,
+} from "../helpers/error-handling";
+import { FilePlan } from "../helpers/file-plan";
+import { logger } from "../helpers/logger";
+import { configurePackageManager } from "../helpers/package-manager";
 import { replaceTemplateVars } from "../helpers/replace-vars";
+import {
+  type TemplateContext,
+  type TemplateManifest,
+  createTemplateContext,
+  loadTemplateManifest,
+} from "../helpers/template-manifest";
+import {
+  type FetchedTemplate,
+  describeTemplateSource,
+  fetchTemplate,
+  parseTemplateSource,
+} from "../helpers/template-source";
 import {
   displayVersionUpdates,
   extractCurrentVersions,
   fetchLatestVersions,
   updatePackageVersions,
 } from "../helpers/version-fetcher";
+import { getUnsupportedOptions } from "../template-registry";
 
 import type { ProjectOptions } from "../types";
 
+export interface LoadedTemplate extends FetchedTemplate {
+  manifest: TemplateManifest;
+}
+
 /**
- * Copy template files to project directory
+ * Fetch the selected template and read its manifest
  */
-export async function copyTemplateFiles(
-  templatePath: string,
+export async function fetchTemplateFiles(
   projectPath: string,
   options: ProjectOptions,
   spinner: Ora,
+): Promise<LoadedTemplate> {
+  const source = parseTemplateSource(options.template);
+  let template: LoadedTemplate;
+
+  if (source.type !== "registry") {
+    spinner.start(
+      `Fetching template from ${describeTemplateSource(source)}...`,
+    );
+  }
+  try {
+    const fetched = await fetchTemplate(options.template);
+    try {
+      const manifest = await loadTemplateManifest(fetched.path);
+      template = {
+        ...fetched,
+        version: fetched.version ?? manifest.version,
+        manifest,
+      };
+    } catch (error) {
+      await fetched.cleanup();
+      throw error;
+    }
+    if (source.type !== "registry") {
+      spinner.succeed("Fetched template");
+    }
+  } catch (error) {
+    spinner.fail("Failed to fetch template");
+    const enhancedError = handleTemplateSourceError(error as Error, {
+      operation: "Template fetching",
+      projectPath,
+      details: `Unable to fetch template from ${describeTemplateSource(source)}`,
+    });
+    enhancedError.display();
+    process.exit(1);
+  }
+
+  // Remote templates declare their supported options in the manifest
+  const unsupported = getUnsupportedOptions(
+    template.manifest.supports ?? {},
+    options,
+  );
+  if (unsupported.length > 0) {
+    await template.cleanup();
+    logger.error(
+      `The "${template.manifest.name}" template does not support ${unsupported.join(", ")}`,
+    );
+    process.exit(1);
+  }
+
+  return template;
+}
+
+/**
+ * Load the fetched template's files into the plan
+ */
+export async function copyTemplateFiles(
+  template: LoadedTemplate,
+  plan: FilePlan,
+  context: TemplateContext,
+  spinner: Ora,
 ): Promise<void> {
-  spinner.start("Copying template files...");
+  spinner.start("Preparing template files...");
   try {
-    await copyTemplate(templatePath, projectPath, options);
-    spinner.succeed("Copied template files");
+    await copyTemplate(template.path, plan, template.manifest, context);
+    spinner.succeed("Prepared template files");
   } catch (error) {
-    spinner.fail("Failed to copy template files");
+    await template.cleanup();
+    spinner.fail("Failed to prepare template files");
     const enhancedError = handleFileSystemError(error as Error, {
       operation: "Template copying",
-      projectPath,
-      details: "Unable to copy template files to project directory",
+      projectPath: template.path,
+      details: "Unable to read template files",
     });
     enhancedError.display();
     process.exit(1);
   }
+
+  // Remove any temporary checkout or extracted tarball
+  await template.cleanup();
 }
 
 /**
  * Customize template with project-specific variables
  */
 export async function customizeTemplate(
-  projectPath: string,
-  projectName: string,
+  plan: FilePlan,
+  manifest: TemplateManifest,
+  context: TemplateContext,
   options: ProjectOptions,
   spinner: Ora,
 ): Promise<void> {
   spinner.start("Customizing template...");
   try {
-    await replaceTemplateVars(projectPath, projectName, options);
+    await replaceTemplateVars(plan, manifest, context);
+    configurePackageManager(plan, options.pm);
     spinner.succeed("Customized template");
   } catch (error) {
     spinner.fail("Failed to customize template");
     const enhancedError = handleFileSystemError(error as Error, {
       operation: "Template customization",
-      projectPath,
       details: "Unable to customize template variables",
     });
     enhancedError.display();
@@ -65,18 +153,41 @@ export async function customizeTemplate(
   }
 }
 
+/**
+ * Render the template for a set of options into a new plan, without the
+ * spinners and version checks of a full run
+ */
+export async function renderTemplate(
+  template: LoadedTemplate,
+  projectName: string,
+  options: ProjectOptions,
+  answers: Record<string, string | boolean>,
+): Promise<FilePlan> {
+  const plan = new FilePlan();
+  const context = createTemplateContext(
+    projectName,
+    options,
+    template.manifest,
+    answers,
+  );
+  await copyTemplate(template.path, plan, template.manifest, context);
+  await replaceTemplateVars(plan, template.manifest, context);
+  configurePackageManager(plan, options.pm);
+  return plan;
+}
+
 /**
  * Update dependencies to latest versions
  */
 export async function updateVersions(
-  projectPath: string,
+  plan: FilePlan,
   spinner: Ora,
 ): Promise<void> {
   spinner.start("Checking for latest package versions...");
 
   try {
     // Find all package.json files in the project
-    const packageJsonPaths = await findPackageJsonFiles(projectPath);
+    const packageJsonPaths = findPackageJsonFiles(plan);
 
     if (packageJsonPaths.length === 0) {
       spinner.warn("No package.json files found to update");
@@ -88,7 +199,7 @@ export async function updateVersions(
     // Process each package.json file
     for (const packageJsonPath of packageJsonPaths) {
       try {
-        const packageJsonContent = readFileSync(packageJsonPath, "utf-8");
+        const packageJsonContent = plan.read(packageJsonPath);
         const currentVersions = extractCurrentVersions(packageJsonContent);
 
         // Get list of packages to check (only those that exist in this package.json)
@@ -121,7 +232,7 @@ export async function updateVersions(
           );
 
           if (updatedContent !== packageJsonContent) {
-            writeFileSync(packageJsonPath, updatedContent);
+            plan.write(packageJsonPath, updatedContent);
             const updates = versionUpdates.filter((v) => v.updated);
             totalUpdates += updates.length;
           }
@@ -135,9 +246,8 @@ export async function updateVersions(
       spinner.succeed(`Updated ${totalUpdates} packages to latest versions`);
 
       // Show summary of updates (for the main package.json)
-      const mainPackageJsonPath = resolve(projectPath, "package.json");
-      if (packageJsonPaths.includes(mainPackageJsonPath)) {
-        const content = readFileSync(mainPackageJsonPath, "utf-8");
+      if (packageJsonPaths.includes("package.json")) {
+        const content = plan.read("package.json");
         const currentVersions = extractCurrentVersions(content);
         const packagesToCheck = [
           "react-router",
@@ -170,34 +280,99 @@ export async function updateVersions(
 }
 
 /**
- * Find all package.json files in the project directory
+ * Move staged files into an existing directory
+ * Files already moved are put back if any move fails
  */
-async function findPackageJsonFiles(projectPath: string): Promise<string[]> {
-  const packageJsonFiles: string[] = [];
+async function moveIntoDirectory(
+  plan: FilePlan,
+  stagingPath: string,
+  projectPath: string,
+): Promise<void> {
+  const filesPath = join(stagingPath, "files");
+  const backupPath = join(stagingPath, "backup");
+  const moved: Array<{ path: string; hadBackup: boolean }> = [];
 
-  async function searchDirectory(dirPath: string): Promise<void> {
-    try {
-      const entries = await readdir(dirPath);
-
-      for (const entry of entries) {
-        const fullPath = resolve(dirPath, entry);
-        const stats = await stat(fullPath);
-
-        if (stats.isFile() && entry === "package.json") {
-          packageJsonFiles.push(fullPath);
-        } else if (
-          stats.isDirectory() &&
-          !entry.startsWith(".") &&
-          entry !== "node_modules"
-        ) {
-          await searchDirectory(fullPath);
-        }
+  try {
+    for (const path of plan.paths()) {
+      const targetPath = join(projectPath, path);
+      const hadBackup = existsSync(targetPath);
+      if (hadBackup) {
+        await mkdir(dirname(join(backupPath, path)), { recursive: true });
+        await rename(targetPath, join(backupPath, path));
       }
-    } catch (error) {
-      // Skip directories we can't read
+      moved.push({ path, hadBackup });
+
+      await mkdir(dirname(targetPath), { recursive: true });
+      await rename(join(filesPath, path), targetPath);
     }
+  } catch (error) {
+    for (const { path, hadBackup } of moved.reverse()) {
+      await rm(join(projectPath, path), { recursive: true, force: true });
+      if (hadBackup) {
+        await rename(join(backupPath, path), join(projectPath, path));
+      }
+    }
+    throw error;
   }
+}
 
-  await searchDirectory(projectPath);
-  return packageJsonFiles;
+/**
+ * Write the planned files to a staging directory, then move them into place
+ * so a failure never leaves a partial project behind
+ */
+export async function writeProjectFiles(
+  plan: FilePlan,
+  projectPath: string,
+  spinner: Ora,
+): Promise<void> {
+  spinner.start("Writing project files...");
+  const targetExists = existsSync(projectPath);
+  let stagingPath: string | undefined;
+  try {
+    // Stage on the same file system so the final renames are atomic
+    stagingPath = targetExists
+      ? await mkdtemp(join(projectPath, ".create-fastify-project-staging-"))
+      : await mkdtemp(
+          join(dirname(projectPath), `.${basename(projectPath)}-staging-`),
+        );
+    const unregister = removeOnExit(stagingPath);
+
+    const count = await plan.writeTo(join(stagingPath, "files"));
+    if (targetExists) {
+      await moveIntoDirectory(plan, stagingPath, projectPath);
+    } else {
+      await rename(join(stagingPath, "files"), projectPath);
+    }
+    await rm(stagingPath, { recursive: true, force: true });
+    unregister();
+
+    spinner.succeed(`Wrote ${count} project files`);
+  } catch (error) {
+    if (stagingPath) {
+      await rm(stagingPath, { recursive: true, force: true });
+    }
+    spinner.fail("Failed to write project files");
+    const enhancedError = handleFileSystemError(error as Error, {
+      operation: "Project file writing",
+      projectPath,
+      details: "Unable to write template files to project directory",
+    });
+    enhancedError.display();
+    process.exit(1);
+  }
+}
+
+/**
+ * Find all package.json files in the plan
+ */
+function findPackageJsonFiles(plan: FilePlan): string[] {
+  return plan.paths().filter((path) => {
+    const segments = path.split("/");
+    return (
+      segments[segments.length - 1] === "package.json" &&
+      !segments.some(
+        (segment) => segment.startsWith(".") || segment === "node_modules",
+      )
+    );
+  });
 }
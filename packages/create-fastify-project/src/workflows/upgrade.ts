@@ -0,0 +1,380 @@
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { FilePlan, formatCommand } from "../helpers/file-plan";
+import {
+  LOCKFILE_NAME,
+  type ProjectLockfile,
+  hashContent,
+  hashFiles,
+  readLockfile,
+  writeLockfile,
+} from "../helpers/lockfile";
+import { logger } from "../helpers/logger";
+import { mergeThreeWay } from "../helpers/merge";
+import {
+  type PackageJson,
+  mergePackageJsonChanges,
+  parsePackageJson,
+  stringifyPackageJson,
+} from "../helpers/package-json";
+import { installCommand } from "../helpers/package-manager";
+import { loadTemplateManifest } from "../helpers/template-manifest";
+import { fetchTemplateVersion } from "../helpers/template-source";
+import { getCliVersion } from "../template-registry";
+import type { ProjectOptions } from "../types";
+import { isUnmodified, removeFile } from "./features";
+import {
+  fetchTemplateFiles,
+  renderTemplate,
+  writeProjectFiles,
+} from "./templates";
+
+export interface UpgradeFlags {
+  /** Template to upgrade to, defaults to the one the project was created from */
+  template?: string;
+  dryRun?: boolean;
+}
+
+export interface UpgradeChanges {
+  /** Files to write, starting from the project's current content */
+  plan: FilePlan;
+  unchanged: string[];
+  /** Changed by the template only */
+  updated: string[];
+  /** Changed by both, merged without conflicts */
+  merged: string[];
+  /** Changed by both, written with conflict markers or kept as they are */
+  conflicted: string[];
+  created: string[];
+  removed: string[];
+  /** No longer part of the template, kept because you changed them */
+  kept: string[];
+  /** Part of the template, but deleted by you */
+  skipped: string[];
+}
+
+/**
+ * Shorten git commit SHAs for display
+ */
+function formatVersion(version: string | undefined): string {
+  if (!version) {
+    return "unknown";
+  }
+  return /^[0-9a-f]{40}$/.test(version) ? version.slice(0, 7) : version;
+}
+
+/**
+ * An unchanged package.json as it would have been generated, before its
+ * dependencies were updated to their latest versions
+ */
+function withVersionsFrom(
+  packageJson: PackageJson,
+  generated: PackageJson,
+): PackageJson {
+  const result = { ...packageJson };
+  for (const field of ["dependencies", "devDependencies"] as const) {
+    const versions = generated[field] as Record<string, string> | undefined;
+    if (result[field] && versions) {
+      result[field] = Object.fromEntries(
+        Object.entries(result[field] as Record<string, string>).map(
+          ([name, version]) => [name, versions[name] ?? version],
+        ),
+      );
+    }
+  }
+  return result;
+}
+
+function isBinary(content: Buffer): boolean {
+  return content.includes(0);
+}
+
+/**
+ * Three-way merge every template file: the files the project was generated
+ * from, the project as it is now and the files the new template generates
+ * Without the original files, only files you haven't changed are updated
+ */
+export function planUpgrade(
+  projectPath: string,
+  lockfile: ProjectLockfile,
+  base: FilePlan | undefined,
+  next: FilePlan,
+  templateLabel: string,
+): UpgradeChanges {
+  const changes: UpgradeChanges = {
+    plan: new FilePlan(),
+    unchanged: [],
+    updated: [],
+    merged: [],
+    conflicted: [],
+    created: [],
+    removed: [],
+    kept: [],
+    skipped: [],
+  };
+  const paths = new Set([
+    ...next.paths(),
+    ...(base?.paths() ?? []),
+    ...Object.keys(lockfile.files),
+  ]);
+
+  for (const path of [...paths].sort()) {
+    const generated = next.get(path)?.content;
+    const previous = base?.get(path)?.content;
+    const targetPath = join(projectPath, path);
+    const exists = existsSync(targetPath);
+    const current = exists ? readFileSync(targetPath) : undefined;
+    const changedByYou =
+      current !== undefined &&
+      lockfile.files[path] !== hashContent(current) &&
+      !(previous && isUnmodified(path, current, previous));
+
+    if (!generated) {
+      if (current === undefined) {
+        continue;
+      }
+      if (changedByYou) {
+        changes.kept.push(path);
+      } else {
+        changes.removed.push(path);
+      }
+      continue;
+    }
+
+    if (current === undefined) {
+      if (lockfile.files[path]) {
+        changes.skipped.push(path);
+      } else {
+        changes.plan.add(path, generated);
+        changes.created.push(path);
+      }
+      continue;
+    }
+
+    if (
+      current.equals(generated) ||
+      previous?.equals(generated) ||
+      lockfile.files[path] === hashContent(generated)
+    ) {
+      changes.unchanged.push(path);
+      continue;
+    }
+
+    // Keep dependency versions updated since, changing only what the template did
+    if (path.endsWith("package.json") && (previous || !changedByYou)) {
+      const content = current.toString("utf-8");
+      const after = parsePackageJson(generated.toString("utf-8"), path);
+      const before = previous
+        ? parsePackageJson(previous.toString("utf-8"), path)
+        : withVersionsFrom(parsePackageJson(content, path), after);
+      const merged = stringifyPackageJson(
+        mergePackageJsonChanges(parsePackageJson(content, path), before, after),
+        content,
+      );
+      if (merged === content) {
+        changes.unchanged.push(path);
+      } else {
+        changes.plan.add(path, current);
+        changes.plan.write(path, merged);
+        (changedByYou ? changes.merged : changes.updated).push(path);
+      }
+      continue;
+    }
+
+    if (!changedByYou) {
+      changes.plan.add(path, current);
+      changes.plan.write(path, generated);
+      changes.updated.push(path);
+      continue;
+    }
+
+    if (isBinary(current) || isBinary(generated)) {
+      changes.conflicted.push(path);
+      continue;
+    }
+    const result = mergeThreeWay(
+      previous?.toString("utf-8") ?? "",
+      current.toString("utf-8"),
+      generated.toString("utf-8"),
+      { ours: "yours", theirs: templateLabel },
+    );
+    changes.plan.add(path, current);
+    changes.plan.write(path, result.content);
+    (result.conflicts > 0 ? changes.conflicted : changes.merged).push(path);
+  }
+
+  return changes;
+}
+
+/**
+ * Render the template the project was generated from, when it can be fetched
+ */
+async function renderBaseTemplate(
+  lockfile: ProjectLockfile,
+): Promise<FilePlan | undefined> {
+  if (!lockfile.template.version) {
+    return undefined;
+  }
+  const fetched = await fetchTemplateVersion(
+    lockfile.options.template,
+    lockfile.template.version,
+  );
+  if (!fetched) {
+    return undefined;
+  }
+  try {
+    const manifest = await loadTemplateManifest(fetched.path);
+    return await renderTemplate(
+      { ...fetched, manifest },
+      lockfile.projectName,
+      lockfile.options,
+      lockfile.answers,
+    );
+  } finally {
+    await fetched.cleanup();
+  }
+}
+
+function displayUpgradeChanges(changes: UpgradeChanges, dryRun: boolean): void {
+  const sections: Array<[string, string, string[]]> = [
+    ["Files to be created:", "Created:", changes.created],
+    ["Files to be updated:", "Updated:", changes.updated],
+    ["Files to be merged with your changes:", "Merged:", changes.merged],
+    [
+      "Conflicting changes:",
+      "Conflicts, resolve the <<<<<<< markers:",
+      changes.conflicted,
+    ],
+    ["Files to be removed:", "Removed:", changes.removed],
+    [
+      "No longer in the template, kept because you changed them:",
+      "No longer in the template, kept because you changed them:",
+      changes.kept,
+    ],
+    [
+      "Deleted by you, not recreated:",
+      "Deleted by you, not recreated:",
+      changes.skipped,
+    ],
+  ];
+
+  for (const [dryRunTitle, title, paths] of sections) {
+    if (paths.length === 0) {
+      continue;
+    }
+    logger.section(dryRun ? dryRunTitle : title);
+    for (const path of paths) {
+      logger.listItem(path);
+    }
+  }
+  logger.break();
+  logger.dim(`${changes.unchanged.length} files unchanged`);
+}
+
+/**
+ * Regenerate a project's template at its latest version with the options it
+ * was created with, and merge the result into the project
+ */
+export async function upgradeProject(
+  flags: UpgradeFlags,
+  projectPath = process.cwd(),
+): Promise<void> {
+  const lockfile = readLockfile(projectPath);
+  if (!lockfile) {
+    throw new Error(
+      `No ${LOCKFILE_NAME} found in ${projectPath}. Run this command in the root of a project created with create-fastify-project, which records the template it was generated from there`,
+    );
+  }
+  const options: ProjectOptions = {
+    ...lockfile.options,
+    template: flags.template ?? lockfile.options.template,
+  };
+
+  logger.title(`Upgrading ${lockfile.projectName}`);
+  const spinner = logger.spinner("Loading template...");
+  const template = await fetchTemplateFiles(projectPath, options, spinner);
+  const version = formatVersion(template.version);
+  if (
+    options.template === lockfile.options.template &&
+    template.version === lockfile.template.version
+  ) {
+    await template.cleanup();
+    spinner.stop();
+    logger.info(
+      `${lockfile.projectName} is already on the latest template (${version})`,
+    );
+    return;
+  }
+
+  let next: FilePlan;
+  try {
+    spinner.start(`Rendering template ${version}...`);
+    next = await renderTemplate(
+      template,
+      lockfile.projectName,
+      options,
+      lockfile.answers,
+    );
+    spinner.succeed(`Rendered template ${version}`);
+  } catch (error) {
+    spinner.fail("Failed to render the template");
+    throw error;
+  } finally {
+    await template.cleanup();
+  }
+
+  const previousVersion = formatVersion(lockfile.template.version);
+  spinner.start(`Fetching template ${previousVersion}...`);
+  let base: FilePlan | undefined;
+  try {
+    base = await renderBaseTemplate(lockfile);
+  } catch {
+    base = undefined;
+  }
+  if (base) {
+    spinner.succeed(`Fetched template ${previousVersion}`);
+  } else {
+    spinner.warn(
+      `Could not fetch template ${previousVersion} the project was generated from, files you changed will be marked as conflicts`,
+    );
+  }
+
+  const changes = planUpgrade(
+    projectPath,
+    lockfile,
+    base,
+    next,
+    `template ${version}`,
+  );
+
+  if (flags.dryRun) {
+    displayUpgradeChanges(changes, true);
+    logger.info("Dry run complete, nothing was written");
+    return;
+  }
+
+  if (changes.plan.paths().length > 0) {
+    await writeProjectFiles(changes.plan, projectPath, spinner);
+  }
+  for (const path of changes.removed) {
+    await removeFile(projectPath, path);
+  }
+  await writeLockfile(projectPath, {
+    ...lockfile,
+    cliVersion: getCliVersion(),
+    template: { name: template.manifest.name, version: template.version },
+    options,
+    files: hashFiles(next),
+  });
+  displayUpgradeChanges(changes, false);
+
+  logger.success(`Upgraded ${lockfile.projectName} to template ${version}`);
+  if (
+    changes.plan.paths().some((path) => path.endsWith("package.json")) ||
+    changes.removed.some((path) => path.endsWith("package.json"))
+  ) {
+    logger.section("Finish the upgrade:");
+    logger.command(formatCommand(installCommand(options.pm)));
+    logger.break();
+  }
+}
@@ -1,4 +1,4 @@
-import { existsSync, mkdirSync } from "node:fs";
+import { existsSync, mkdirSync, statSync } from "node:fs";
 import { constants, access } from "node:fs/promises";
 import { resolve } from "node:path";
 import chalk from "chalk";
@@ -6,12 +6,16 @@ import {
   EnhancedError,
   checkFileSystemHealth,
 } from "../helpers/error-handling";
+import { type PlannedCommand, formatCommand } from "../helpers/file-plan";
 import { logger } from "../helpers/logger";
+import { formatRunScript } from "../helpers/package-manager";
 import {
   checkNetworkEnvironment,
   validateProjectOptions,
 } from "../helpers/validation";
 import type { ProjectOptions } from "../types";
+import { getExistingEntries } from "./conflicts";
+import { ORM_NAMES, getInitialMigrationCommand } from "./database";
 
 /**
  * Perform pre-flight checks before project creation
@@ -20,9 +24,16 @@ export async function performPreFlightChecks(
   projectPath: string,
   cliOptions: Partial<ProjectOptions>,
 ): Promise<void> {
-  // Check if directory exists
+  // Existing directories are allowed, conflicting files are resolved later
   if (existsSync(projectPath)) {
-    throw new Error(`Directory "${projectPath}" already exists`);
+    if (!statSync(projectPath).isDirectory()) {
+      throw new Error(`"${projectPath}" already exists and is not a directory`);
+    }
+    if (getExistingEntries(projectPath).length > 0) {
+      logger.warn(
+        `Directory "${projectPath}" is not empty, existing files are kept unless the template replaces them`,
+      );
+    }
   }
 
   // Validate CLI options early
@@ -97,19 +108,24 @@ export async function validateProject(
     }
   }
 
-  // Check database files if Prisma is enabled
-  if (options.orm === "prisma") {
-    const prismaFiles = [
+  // Check database files if an ORM is enabled
+  if (options.orm !== "none") {
+    const databaseFiles = [
       "packages/database/package.json",
-      "packages/database/prisma/schema.prisma",
+      ...(options.orm === "prisma"
+        ? ["packages/database/prisma/schema.prisma"]
+        : [
+            "packages/database/drizzle.config.ts",
+            "packages/database/src/schema.ts",
+          ]),
     ];
 
-    for (const file of prismaFiles) {
+    for (const file of databaseFiles) {
       const filePath = resolve(projectPath, file);
       try {
         await access(filePath, constants.F_OK);
       } catch {
-        logger.error(`Missing Prisma file: ${file}`);
+        logger.error(`Missing ${ORM_NAMES[options.orm]} file: ${file}`);
         hasErrors = true;
       }
     }
@@ -118,11 +134,59 @@ export async function validateProject(
   return hasErrors;
 }
 
+export interface UnfinishedStep {
+  title: string;
+  commands: PlannedCommand[];
+}
+
+/**
+ * Display the setup steps that failed after the project files were written
+ */
+export function displayUnfinishedSteps(
+  projectName: string,
+  projectDir: string,
+  unfinished: UnfinishedStep[],
+): void {
+  logger.warn(
+    `${projectName} was created, but ${unfinished.length} setup step${unfinished.length === 1 ? "" : "s"} did not finish`,
+  );
+  logger.section("Finish the setup manually:");
+  if (projectDir) {
+    logger.command(`cd ${projectDir}`);
+  }
+  for (const step of unfinished) {
+    logger.step(step.title);
+    for (const command of step.commands) {
+      logger.command(formatCommand(command));
+    }
+  }
+  logger.break();
+}
+
+/**
+ * Root scripts worth knowing about, with what they do
+ */
+export function getUsefulScripts(
+  options: ProjectOptions,
+): Array<[script: string, description: string]> {
+  const scripts: Array<[string, string]> = [
+    ["dev", "Start both API and web in development"],
+    ["build", "Build for production"],
+    ["lint", "Run linter"],
+    ["format", "Format code"],
+  ];
+  if (options.orm !== "none") {
+    scripts.push(["db:studio", `Open ${ORM_NAMES[options.orm]} Studio`]);
+  }
+  return scripts;
+}
+
 /**
  * Display manual setup instructions when automated setup fails
+ * `projectDir` is relative to the working directory, empty for `.`
  */
 export function displayManualSetupInstructions(
-  projectName: string,
+  projectDir: string,
   options: ProjectOptions,
 ): void {
   logger.warn("Manual setup required");
@@ -131,21 +195,23 @@ export function displayManualSetupInstructions(
     title: string;
     command?: string;
     description?: string;
-  }> = [
-    {
+  }> = [];
+
+  if (projectDir) {
+    steps.push({
       title: "Navigate to your project",
-      command: `cd ${projectName}`,
-    },
-  ];
+      command: `cd ${projectDir}`,
+    });
+  }
 
   if (!options.install) {
     steps.push({
       title: "Install dependencies",
-      command: "pnpm install",
+      command: `${options.pm} install`,
     });
   }
 
-  if (options.orm === "prisma") {
+  if (options.orm !== "none") {
     steps.push({
       title: "Set up environment",
       command: "cp .env.example .env",
@@ -159,20 +225,37 @@ export function displayManualSetupInstructions(
       });
     }
 
-    steps.push(
-      {
+    if (options.orm === "prisma") {
+      steps.push({
         title: "Generate Prisma client",
-        command: "cd packages/database && pnpm prisma generate",
-      },
-      {
+        command: formatRunScript(options.pm, "db:generate"),
+      });
+    }
+
+    if (options.dbWorkflow === "migrate") {
+      steps.push(
+        {
+          title: "Create the initial migration",
+          command: formatCommand(getInitialMigrationCommand(options)),
+        },
+        {
+          title: "Apply migrations",
+          command: formatRunScript(options.pm, "db:migrate:deploy"),
+        },
+      );
+    } else {
+      steps.push({
         title: "Push database schema",
-        command: "pnpm prisma db push",
-      },
-      {
-        title: "Return to project root",
-        command: "cd ../..",
-      },
-    );
+        command: formatRunScript(options.pm, "db:push"),
+      });
+    }
+
+    if (options.seed) {
+      steps.push({
+        title: "Load sample data",
+        command: formatRunScript(options.pm, "db:seed"),
+      });
+    }
   }
 
   if (!options.git) {
@@ -190,10 +273,10 @@ export function displayManualSetupInstructions(
 
   steps.push({
     title: "Start development",
-    command: "pnpm dev",
+    command: formatRunScript(options.pm, "dev"),
   });
 
-  logger.nextSteps(projectName, steps);
+  logger.nextSteps(projectDir, steps);
   logger.dim("💡 Check the README.md for more detailed instructions");
 }
 
@@ -211,17 +294,22 @@ export function displaySuccessMessage(
   console.log(chalk.cyan("\n📁 Navigate to your project:"));
   console.log(chalk.cyan(`   cd ${projectName}`));
   console.log(chalk.cyan("\n🚀 Start development:"));
-  console.log(chalk.cyan("   pnpm dev"));
+  console.log(chalk.cyan(`   ${formatRunScript(options.pm, "dev")}`));
 
   console.log(chalk.dim("\n📚 What's included:"));
   console.log(chalk.dim("   • Fastify API server (apps/api)"));
   console.log(chalk.dim("   • React Router 7 web app (apps/web)"));
   console.log(chalk.dim("   • Shared TypeScript config & utilities"));
-  if (options.orm === "prisma") {
+  if (options.orm !== "none") {
     console.log(
-      chalk.dim(`   • Prisma ORM with ${options.db.toUpperCase()} database`),
+      chalk.dim(
+        `   • ${ORM_NAMES[options.orm]} ORM with ${options.db.toUpperCase()} database`,
+      ),
     );
   }
+  if (options.openapi) {
+    console.log(chalk.dim("   • OpenAPI spec and Swagger UI at /docs"));
+  }
   console.log(
     chalk.dim(
       `   • ${options.lint === "biome" ? "Biome" : "ESLint"} for code quality`,
@@ -229,14 +317,12 @@ export function displaySuccessMessage(
   );
 
   console.log(chalk.cyan("\n🔗 Useful commands:"));
-  console.log(
-    chalk.cyan("   pnpm dev          # Start both API and web in development"),
-  );
-  console.log(chalk.cyan("   pnpm build        # Build for production"));
-  console.log(chalk.cyan("   pnpm lint         # Run linter"));
-  console.log(chalk.cyan("   pnpm format       # Format code"));
-  if (options.orm === "prisma") {
-    console.log(chalk.cyan("   pnpm db:studio    # Open Prisma Studio"));
+  for (const [script, description] of getUsefulScripts(options)) {
+    console.log(
+      chalk.cyan(
+        `   ${formatRunScript(options.pm, script).padEnd(18)}# ${description}`,
+      ),
+    );
   }
 
   console.log(
@@ -0,0 +1,253 @@
+import { writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { FastifySchema } from "fastify";
+import { buildApp } from "./app";
+import { loadAppConfig } from "./env";
+
+interface JsonSchema {
+  type?: string | string[];
+  const?: unknown;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+}
+
+interface CollectedRoute {
+  method: string;
+  url: string;
+  schema: FastifySchema & { operationId?: string; hide?: boolean };
+}
+
+const CLIENT_PATH = join(
+  __dirname,
+  "..",
+  "..",
+  "..",
+  "packages",
+  "api-client",
+  "src",
+  "generated.ts",
+);
+
+const pascalCase = (value: string) =>
+  value
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("");
+
+/**
+ * Method name for a route, its `operationId` or the HTTP method and path,
+ * e.g. `PATCH /api/todos/:id/toggle` becomes `patchTodosByIdToggle`
+ */
+function getMethodName(route: CollectedRoute): string {
+  if (route.schema.operationId) {
+    return route.schema.operationId;
+  }
+  const segments = route.url
+    .split("/")
+    .filter((segment) => segment && segment !== "api")
+    .map((segment) =>
+      segment.startsWith(":")
+        ? `By${pascalCase(segment.slice(1))}`
+        : pascalCase(segment),
+    );
+  return `${route.method.toLowerCase()}${segments.join("")}`;
+}
+
+const isUnion = (schema: JsonSchema | undefined) =>
+  Boolean(
+    schema &&
+      (schema.anyOf ||
+        schema.oneOf ||
+        schema.allOf ||
+        Array.isArray(schema.type) ||
+        (schema.enum && schema.enum.length > 1)),
+  );
+
+/**
+ * TypeScript type for a JSON schema, `unknown` for anything it can't express
+ */
+function toType(schema: JsonSchema | undefined, indent = ""): string {
+  if (!schema) {
+    return "unknown";
+  }
+  if (schema.const !== undefined) {
+    return JSON.stringify(schema.const);
+  }
+  if (schema.enum) {
+    return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+  }
+  const union = schema.anyOf ?? schema.oneOf;
+  if (union) {
+    return union.map((member) => toType(member, indent)).join(" | ");
+  }
+  if (schema.allOf) {
+    return schema.allOf.map((member) => toType(member, indent)).join(" & ");
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type
+      .map((type) => toType({ ...schema, type }, indent))
+      .join(" | ");
+  }
+
+  switch (schema.type) {
+    case "string":
+      return "string";
+    case "number":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "null":
+      return "null";
+    case "array": {
+      const items = toType(schema.items, indent);
+      return isUnion(schema.items) ? `(${items})[]` : `${items}[]`;
+    }
+    case "object":
+      return toObjectType(schema, indent);
+    default:
+      return "unknown";
+  }
+}
+
+function toObjectType(schema: JsonSchema, indent: string): string {
+  const properties = Object.entries(schema.properties ?? {});
+  if (properties.length === 0) {
+    return typeof schema.additionalProperties === "object"
+      ? `Record<string, ${toType(schema.additionalProperties, indent)}>`
+      : "Record<string, unknown>";
+  }
+  const required = new Set(schema.required ?? []);
+  const lines = properties.map(([name, property]) => {
+    const key = /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+    const optional = required.has(name) ? "" : "?";
+    return `${indent}  ${key}${optional}: ${toType(property, `${indent}  `)};`;
+  });
+  return `{\n${lines.join("\n")}\n${indent}}`;
+}
+
+/**
+ * Whether a request part can be left out, i.e. it has no required fields
+ */
+function isOptional(schema: JsonSchema): boolean {
+  return schema.type === "object" && (schema.required ?? []).length === 0;
+}
+
+/**
+ * Type of the `data` a route responds with, unwrapped from its `ApiResponse`
+ */
+function getResponseType(route: CollectedRoute): string {
+  const responses = (route.schema.response ?? {}) as Record<string, JsonSchema>;
+  const success = Object.entries(responses).find(([status]) =>
+    status.startsWith("2"),
+  )?.[1];
+  const data = success?.properties?.data;
+  if (!data) {
+    return "unknown";
+  }
+  // The envelope allows `null` data, which the client turns into an error
+  const members = (data.anyOf ?? [data]).filter(
+    (member) => member.type !== "null",
+  );
+  return toType(members.length === 1 ? members[0] : { anyOf: members });
+}
+
+/**
+ * Source of `generated.ts`, with the types and a method for every route
+ */
+function renderClient(routes: CollectedRoute[]): string {
+  const types: string[] = [];
+  const methods: string[] = [];
+
+  for (const route of routes) {
+    const name = getMethodName(route);
+    const typeName = pascalCase(name);
+    const signature = `${route.method} ${route.url}`;
+
+    const parts = Object.entries({
+      params: route.schema.params,
+      query: route.schema.querystring,
+      body: route.schema.body,
+    }).filter((part): part is [string, JsonSchema] => part[1] !== undefined);
+    let parameter = "";
+    let argument = "";
+    if (parts.length > 0) {
+      const fields = parts.map(
+        ([part, schema]) =>
+          `  ${part}${isOptional(schema) ? "?" : ""}: ${toType(schema, "  ")};`,
+      );
+      types.push(
+        `/** Request to ${signature} */\nexport interface ${typeName}Input {\n${fields.join("\n")}\n}`,
+      );
+      const optional = parts.every(([, schema]) => isOptional(schema));
+      parameter = `input: ${typeName}Input${optional ? " = {}" : ""}`;
+      argument = ", input";
+    }
+    types.push(
+      `/** Response data of ${signature} */\nexport type ${typeName}Response = ${getResponseType(route)};`,
+    );
+    methods.push(
+      `    /** ${signature} */\n    ${name}: (${parameter}) =>\n      request<${typeName}Response>(options, "${route.method}", "${route.url}"${argument}),`,
+    );
+  }
+
+  return `// Generated from the API's route schemas by \`api-client:generate\` in
+// apps/api, do not edit. Run it again after changing a route.
+import { type ApiClientOptions, request } from "./client";
+
+${types.join("\n\n")}
+
+/**
+ * Client with a method for every API route, resolving to the route's data
+ */
+export function createApiClient(options: ApiClientOptions) {
+  return {
+${methods.join("\n")}
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+`;
+}
+
+// Write the typed client to packages/api-client without starting the server
+const generateClient = async () => {
+  const fastify = buildApp(loadAppConfig());
+  const routes: CollectedRoute[] = [];
+  fastify.addHook("onRoute", (route) => {
+    const schema = (route.schema ?? {}) as CollectedRoute["schema"];
+    // Docs routes are hidden
+    if (schema.hide) {
+      return;
+    }
+    for (const method of [route.method].flat()) {
+      // Fastify adds a HEAD route for every GET
+      if (method !== "HEAD") {
+        routes.push({ method, url: route.url, schema });
+      }
+    }
+  });
+
+  try {
+    await fastify.ready();
+    routes.sort(
+      (a, b) => a.url.localeCompare(b.url) || a.method.localeCompare(b.method),
+    );
+    await writeFile(CLIENT_PATH, renderClient(routes));
+    console.log(`🔌 API client written to ${CLIENT_PATH}`);
+  } catch (err) {
+    console.error(err);
+    process.exitCode = 1;
+  } finally {
+    await fastify.close();
+  }
+};
+
+generateClient();
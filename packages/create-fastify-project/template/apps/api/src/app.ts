@@ -0,0 +1,40 @@
+import { join } from "node:path";
+import autoload from "@fastify/autoload";
+import type { TypeBoxTypeProvider } from "@fastify/type-provider-typebox";
+import Fastify, { type FastifyServerOptions } from "fastify";
+import type { AppConfig } from "./env";
+
+declare module "fastify" {
+  interface FastifyInstance {
+    /** The settings the app was built with */
+    config: AppConfig;
+  }
+}
+
+/**
+ * Create the Fastify app with every plugin in `plugins/` and every route in
+ * `routes/` registered, without starting the server
+ *
+ * Both are loaded on `ready()`, so hooks the caller adds first, e.g.
+ * `onRoute`, see every route
+ *
+ * Plugins and routes read their settings from `fastify.config` rather than
+ * the environment, which only `server.ts` validates
+ */
+export function buildApp(config: AppConfig, opts: FastifyServerOptions = {}) {
+  // Route handler types are inferred from their TypeBox schemas
+  const fastify = Fastify(opts).withTypeProvider<TypeBoxTypeProvider>();
+  fastify.decorate("config", config);
+
+  // Shared plugins, e.g. CORS and error handling, available to every route
+  fastify.register(autoload, {
+    dir: join(__dirname, "plugins"),
+  });
+
+  // One file per group of endpoints, add or remove files to change the API
+  fastify.register(autoload, {
+    dir: join(__dirname, "routes"),
+  });
+
+  return fastify;
+}
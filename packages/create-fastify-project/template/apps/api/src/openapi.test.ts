@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import SwaggerParser from "@apidevtools/swagger-parser";
+import type { OpenAPI } from "openapi-types";
+import { buildApp } from "./app";
+import { loadAppConfig } from "./env";
+
+test("the OpenAPI spec is valid and documents the routes", async () => {
+  const fastify = buildApp(loadAppConfig());
+
+  try {
+    await fastify.ready();
+    const spec = fastify.swagger() as OpenAPI.Document;
+
+    // The parser dereferences the document in place, validate a copy
+    await SwaggerParser.validate(structuredClone(spec));
+    assert.ok(spec.paths?.["/health"], "/health is missing from the spec");
+    assert.ok(
+      spec.paths?.["/api/hello"],
+      "/api/hello is missing from the spec",
+    );
+  } finally {
+    await fastify.close();
+  }
+});
@@ -0,0 +1,26 @@
+import { writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { buildApp } from "./app";
+import { loadAppConfig } from "./env";
+
+// Write the OpenAPI spec to openapi.json without starting the server
+const exportSpec = async () => {
+  const fastify = buildApp(loadAppConfig());
+
+  try {
+    await fastify.ready();
+    const specPath = join(__dirname, "..", "openapi.json");
+    await writeFile(
+      specPath,
+      `${JSON.stringify(fastify.swagger(), null, 2)}\n`,
+    );
+    console.log(`📄 OpenAPI spec written to ${specPath}`);
+  } catch (err) {
+    console.error(err);
+    process.exitCode = 1;
+  } finally {
+    await fastify.close();
+  }
+};
+
+exportSpec();
@@ -0,0 +1,13 @@
+import cors from "@fastify/cors";
+import type { FastifyInstance } from "fastify";
+import fp from "fastify-plugin";
+
+// CORS support for the web app
+export default fp(async (fastify: FastifyInstance) => {
+  await fastify.register(cors, {
+    origin: fastify.config.CORS_ORIGINS.split(",").map((origin) =>
+      origin.trim(),
+    ),
+    credentials: true,
+  });
+});
@@ -0,0 +1,21 @@
+import { buildApp } from "./app";
+import { loadServerEnv } from "./env";
+
+// Validated on startup, see packages/env for every variable
+const env = loadServerEnv();
+
+const start = async () => {
+  const fastify = buildApp(env, {
+    logger: true,
+  });
+
+  try {
+    await fastify.listen({ port: env.PORT, host: env.HOST });
+    console.log(`🚀 API Server ready at http://localhost:${env.PORT}`);
+  } catch (err) {
+    fastify.log.error(err);
+    process.exit(1);
+  }
+};
+
+start();
@@ -1,29 +1,11 @@
-import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import type { ActionFunctionArgs } from "react-router";
 import { Form, useLoaderData, useNavigation } from "react-router";
+import { api } from "~/api.server";
 
-interface Todo {
-  id: string;
-  title: string;
-  completed: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
-
-interface ApiResponse<T = unknown> {
-  data: T | null;
-  error: string | null;
-  timestamp: string;
-}
-
-export async function loader({ request }: LoaderFunctionArgs) {
+export async function loader() {
   try {
-    const response = await fetch("http://localhost:3000/api/todos");
-    if (!response.ok) {
-      throw new Error(`API responded with status: ${response.status}`);
-    }
-
-    const result: ApiResponse<Todo[]> = await response.json();
-    return { todos: result.data || [], error: result.error };
+    const todos = await api.getTodos();
+    return { todos, error: null };
   } catch (error) {
     console.error("Failed to fetch todos:", error);
     return {
@@ -36,31 +18,16 @@ export async function loader({ request }: LoaderFunctionArgs) {
 export async function action({ request }: ActionFunctionArgs) {
   const formData = await request.formData();
   const intent = formData.get("intent");
+  const id = String(formData.get("id"));
 
   try {
     if (intent === "create") {
-      const title = formData.get("title") as string;
-      const response = await fetch("http://localhost:3000/api/todos", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ title }),
-      });
-      if (!response.ok) throw new Error("Failed to create todo");
+      const title = String(formData.get("title"));
+      await api.postTodos({ body: { title } });
     } else if (intent === "toggle") {
-      const id = formData.get("id") as string;
-      const response = await fetch(
-        `http://localhost:3000/api/todos/${id}/toggle`,
-        {
-          method: "PATCH",
-        },
-      );
-      if (!response.ok) throw new Error("Failed to toggle todo");
+      await api.patchTodosByIdToggle({ params: { id } });
     } else if (intent === "delete") {
-      const id = formData.get("id") as string;
-      const response = await fetch(`http://localhost:3000/api/todos/${id}`, {
-        method: "DELETE",
-      });
-      if (!response.ok) throw new Error("Failed to delete todo");
+      await api.deleteTodosById({ params: { id } });
     }
 
     return { success: true };
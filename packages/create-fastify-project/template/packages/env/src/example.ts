@@ -0,0 +1,56 @@
+import { writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { TObject, TSchema } from "@sinclair/typebox";
+import { ApiEnv, WebEnv } from "./schema";
+
+// The apps whose variables go into .env.example
+const APPS: Record<string, TObject> = {
+  "apps/api": ApiEnv,
+  "apps/web": WebEnv,
+};
+
+const EXAMPLE_PATH = join(__dirname, "..", "..", "..", ".env.example");
+
+/**
+ * A variable's line in .env.example, with its default or first example
+ */
+function formatVariable(key: string, schema: TSchema): string {
+  const value = schema.default ?? schema.examples?.[0] ?? "";
+  const line =
+    typeof value === "string" ? `${key}="${value}"` : `${key}=${value}`;
+  return schema.description ? `# ${schema.description}\n${line}` : line;
+}
+
+// Write .env.example from the schemas, variables shared by apps once
+const writeExample = async () => {
+  const written = new Set<string>();
+  const sections: string[] = [];
+  for (const [app, schema] of Object.entries(APPS)) {
+    const variables = Object.entries(schema.properties)
+      .filter(([key]) => !written.has(key))
+      .map(([key, property]) => {
+        written.add(key);
+        return formatVariable(key, property);
+      });
+    if (variables.length > 0) {
+      sections.push(`## ${app}\n\n${variables.join("\n\n")}`);
+    }
+  }
+
+  try {
+    await writeFile(
+      EXAMPLE_PATH,
+      `# Generated from packages/env/src/schema.ts by its env:example script.
+# Copy it to .env and adjust the values.
+
+${sections.join("\n\n")}
+`,
+    );
+    console.log(`📝 Environment example written to ${EXAMPLE_PATH}`);
+  } catch (err) {
+    console.error(err);
+    process.exitCode = 1;
+  }
+};
+
+writeExample();
@@ -0,0 +1,69 @@
+import { existsSync } from "node:fs";
+import { dirname, join } from "node:path";
+import type { Static, TObject } from "@sinclair/typebox";
+import { Value } from "@sinclair/typebox/value";
+import { config } from "dotenv";
+
+/**
+ * Environment variables that are missing or don't match their schema
+ */
+export class EnvError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(
+      `Invalid environment variables:\n${problems.map((problem) => `  • ${problem}`).join("\n")}\nSet them in .env, see .env.example for every variable`,
+    );
+    this.name = "EnvError";
+  }
+}
+
+/**
+ * The closest .env, looking up from the working directory to the repo root
+ */
+function findEnvFile(directory = process.cwd()): string | undefined {
+  const envPath = join(directory, ".env");
+  if (existsSync(envPath)) {
+    return envPath;
+  }
+  const parent = dirname(directory);
+  return parent === directory ? undefined : findEnvFile(parent);
+}
+
+/**
+ * Read the variables in `schema` from the environment and .env, with the
+ * schema's defaults applied and numbers converted
+ * Throws an EnvError listing every problem at once
+ */
+export function loadEnv<T extends TObject>(
+  schema: T,
+  source: NodeJS.ProcessEnv = process.env,
+): Static<T> {
+  // Variables that are already set win over .env
+  const envPath = findEnvFile();
+  if (source === process.env && envPath) {
+    config({ path: envPath, quiet: true });
+  }
+
+  const values = Object.fromEntries(
+    Object.keys(schema.properties)
+      .filter((key) => source[key] !== undefined)
+      .map((key) => [key, source[key]]),
+  );
+  const env = Value.Default(schema, Value.Convert(schema, values));
+
+  const problems = new Map<string, string>();
+  for (const error of Value.Errors(schema, env)) {
+    const key = error.path.split("/")[1];
+    if (!problems.has(key)) {
+      problems.set(
+        key,
+        key in values
+          ? `${key}: ${error.message}, got "${values[key]}"`
+          : `${key} is missing`,
+      );
+    }
+  }
+  if (problems.size > 0) {
+    throw new EnvError([...problems.values()]);
+  }
+  return env as Static<T>;
+}
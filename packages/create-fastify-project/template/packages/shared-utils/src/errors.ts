@@ -0,0 +1,37 @@
+/**
+ * An error the API turns into a response with its status code, throw one of
+ * the subclasses from route handlers and database helpers
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(message = "Invalid request") {
+    super(message, 400);
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message = "Unauthorized") {
+    super(message, 401);
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message = "Not found") {
+    super(message, 404);
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message = "Conflict") {
+    super(message, 409);
+  }
+}
@@ -1,9 +1,25 @@
+import { type TSchema, Type } from "@sinclair/typebox";
+
+export * from "./errors";
+
 export interface ApiResponse<T = unknown> {
   data: T | null;
   error: string | null;
   timestamp: string;
 }
 
+// Schema of the ApiResponse envelope around `data`, for route responses
+export const ApiResponseSchema = <T extends TSchema>(data: T) =>
+  Type.Object({
+    data: Type.Union([data, Type.Null()]),
+    error: Type.Union([Type.String(), Type.Null()]),
+    timestamp: Type.String({ format: "date-time" }),
+  });
+
+// Date-time string, also accepting the Date objects the database returns
+export const DateTimeSchema = () =>
+  Type.Unsafe<Date | string>(Type.String({ format: "date-time" }));
+
 export function createApiResponse<T>(
   data: T | null,
   error: string | null = null,
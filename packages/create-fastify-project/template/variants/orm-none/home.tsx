@@ -0,0 +1,109 @@
+import { useLoaderData } from "react-router";
+import { api } from "~/api.server";
+
+export async function loader() {
+  try {
+    const example = await api.getExample();
+    return { example, error: null };
+  } catch (error) {
+    console.error("Failed to reach the API:", error);
+    return {
+      example: null,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+export function meta() {
+  return [
+    { title: "Fastify + React Router 7" },
+    { name: "description", content: "Fastify + React Router 7 Monorepo" },
+  ];
+}
+
+export default function Home() {
+  const { example, error } = useLoaderData<typeof loader>();
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
+      <div className="container mx-auto px-4 py-16">
+        <div className="max-w-2xl mx-auto">
+          {/* Header */}
+          <div className="text-center mb-12">
+            <h1 className="text-4xl font-bold text-gray-900 dark:text-white mb-4">
+              🚀 Fastify + React Router 7
+            </h1>
+            <p className="text-xl text-gray-600 dark:text-gray-300">
+              A typed API client connects the frontend to the API
+            </p>
+          </div>
+
+          {/* API Status */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 mb-8">
+            {example ? (
+              <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-4">
+                <h3 className="text-lg font-medium text-green-800 dark:text-green-200 mb-2">
+                  ✅ API Connected Successfully!
+                </h3>
+                <p className="text-green-700 dark:text-green-300">
+                  {example.message}
+                </p>
+                <p className="text-sm text-green-700 dark:text-green-300 mt-2">
+                  💡 {example.tip}
+                </p>
+              </div>
+            ) : (
+              <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+                <h3 className="text-lg font-medium text-red-800 dark:text-red-200 mb-2">
+                  ❌ API Connection Failed
+                </h3>
+                <p className="text-red-700 dark:text-red-300 mb-4">{error}</p>
+                <div className="bg-red-100 dark:bg-red-900/40 rounded p-3">
+                  <p className="text-sm text-red-700 dark:text-red-300">
+                    <strong>To fix this:</strong>
+                  </p>
+                  <ol className="list-decimal list-inside text-sm text-red-700 dark:text-red-300 mt-2 space-y-1">
+                    <li>Make sure the API is running</li>
+                    <li>
+                      Run:{" "}
+                      <code className="bg-red-200 dark:bg-red-800 px-1 rounded">
+                        pnpm dev:api
+                      </code>
+                    </li>
+                    <li>Refresh this page</li>
+                  </ol>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Tech Stack Info */}
+          <div className="grid md:grid-cols-2 gap-6">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
+                🔧 Backend Stack
+              </h3>
+              <ul className="space-y-2 text-gray-600 dark:text-gray-300">
+                <li>• Fastify API</li>
+                <li>• TypeBox schemas</li>
+                <li>• TypeScript</li>
+              </ul>
+            </div>
+
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
+                🎨 Frontend Stack
+              </h3>
+              <ul className="space-y-2 text-gray-600 dark:text-gray-300">
+                <li>• React Router 7</li>
+                <li>• Server-side rendering</li>
+                <li>• Tailwind CSS</li>
+                <li>• Typed API client</li>
+              </ul>
+            </div>
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -95,6 +95,15 @@ for scenario in "${test_scenarios[@]}"; do
         exit 1
     fi
     
+    # Validate every EJS template was rendered
+    unrendered_files=$(find . -type f -name "*.ejs" ! -path "./node_modules/*" 2>/dev/null)
+
+    if [ -n "$unrendered_files" ]; then
+        echo "❌ Found unrendered template files:"
+        echo "$unrendered_files"
+        exit 1
+    fi
+    
     # Test dependencies if installed
     if [ "$name" != "no-install" ]; then
         echo "   Testing dependencies..."
@@ -123,6 +132,52 @@ for scenario in "${test_scenarios[@]}"; do
     echo "✅ Scenario $name passed"
 done
 
+# Test template sources
+echo ""
+echo "📦 Testing template sources..."
+
+template_src="$TEST_DIR/template-src"
+cp -r "$CLI_DIR/template" "$template_src"
+
+# Tarball wrapped in a single directory, like `npm pack` output
+tar -czf "$TEST_DIR/template.tgz" -C "$TEST_DIR" template-src
+
+# Bare git repository with the template on a branch
+template_repo="$TEST_DIR/template.git"
+git -C "$template_src" init -q -b main
+git -C "$template_src" add -A
+git -C "$template_src" -c user.name=test -c user.email=test@example.com commit -q -m "template"
+git clone -q --bare "$template_src" "$template_repo"
+rm -rf "$template_src/.git"
+
+source_scenarios=(
+    "local-dir|$template_src"
+    "tarball|$TEST_DIR/template.tgz"
+    "bare-git|git+file://$template_repo"
+    "bare-git-ref|git+file://$template_repo#main"
+)
+
+for scenario in "${source_scenarios[@]}"; do
+    IFS='|' read -r name source <<< "$scenario"
+    echo "   Testing source: $name ($source)"
+
+    project_name="test-source-$name"
+    node "$CLI_DIR/dist/index.js" "$project_name" --template "$source" --yes --no-install --no-git > /dev/null
+
+    for file in "package.json" "apps/api/package.json" "packages/database/package.json"; do
+        if [ ! -f "$project_name/$file" ]; then
+            echo "❌ Missing required file for $name source: $file"
+            exit 1
+        fi
+    done
+
+    if [ -n "$(find "$project_name" -type f -name "*.ejs" 2>/dev/null)" ]; then
+        echo "❌ Found unrendered template files for $name source"
+        exit 1
+    fi
+done
+echo "✅ Template sources passed"
+
 echo ""
 echo "🎉 All CLI tests passed!"
 echo ""